@@ -0,0 +1,66 @@
+/**
+ * Action authorization tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Jwt } from "../jwt";
+import { ActionBase } from "./action-base";
+import type { ActionOptions } from "./action-options";
+import { ActionRequestBase } from "./action-request-base";
+import type { ActionResponse } from "./action-response";
+
+const SECRET = "test-secret";
+
+class ReadOrderRequest extends ActionRequestBase {
+  tenantId?: string;
+}
+
+class ReadOrderAction extends ActionBase<ReadOrderRequest, { subject?: string; tenant: string }, { sub: string; tenant: string }> {
+  constructor(request: ReadOrderRequest, headers: Headers, options: ActionOptions) {
+    super(ReadOrderRequest, request, headers);
+    this.setOptions({ jwtSecret: SECRET, ...options });
+  }
+
+  protected async executeImpl(): Promise<ActionResponse<{ subject?: string; tenant: string }>> {
+    return this.success({ subject: this.principal!.subject, tenant: this.principal!.claims.tenant });
+  }
+}
+
+function headersFor(claims: object): Headers {
+  const token = new Jwt(SECRET).build({ body: claims, subject: "user-1", expiresIn: "1h" });
+  return new Headers({ authorization: `Bearer ${token}` });
+}
+
+describe("action authorization", () => {
+  const headers = headersFor({ roles: ["admin"], scope: "orders:read orders:write", tenant: "acme" });
+
+  it("should expose the principal when the roles, scopes and policy are satisfied", async () => {
+    const response = await new ReadOrderAction({ tenantId: "acme" }, headers, {
+      requiredRoles: ["admin"],
+      requiredScopes: ["orders:read"],
+      authorize: (principal, request: ReadOrderRequest) => principal.claims.tenant === request.tenantId,
+    }).execute();
+
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ subject: "user-1", tenant: "acme" });
+  });
+
+  it("should reject with 403 and an error code per failed rule", async () => {
+    const codes = await Promise.all([
+      { requiredRoles: ["admin", "auditor"] },
+      { requiredScopes: ["orders:delete"] },
+      { authorize: () => false },
+    ].map(async options => {
+      const response = await new ReadOrderAction({}, headers, options).execute();
+      expect(response.status).toBe(403);
+      return response.errors![0]!.code;
+    }));
+
+    expect(codes).toEqual(["MISSING_ROLES", "MISSING_SCOPES", "ACCESS_DENIED"]);
+  });
+
+  it("should require a jwt when authorization rules are set", async () => {
+    const response = await new ReadOrderAction({}, new Headers(), { requiredRoles: ["admin"] }).execute();
+    expect(response.status).toBe(401);
+  });
+});
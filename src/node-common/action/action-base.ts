@@ -1,15 +1,18 @@
 import { v1 } from "uuid";
 import { Jwt } from "../jwt";
 import type { ActionOptions } from "./action-options";
+import { getActionBehaviors, runActionPipeline } from "./action-pipeline";
+import { createActionPrincipal, type ActionPrincipal, type JwtClaims } from "./action-principal";
 import { ActionError, ActionResponse } from "./action-response";
 import { ResponseCodes } from "./action-response-codes";
 
 /** Base class used to build queries or commands that can be executed by the application. */
-export abstract class ActionBase<TReq, TResponseData> {
+export abstract class ActionBase<TReq, TResponseData, TClaims extends object = JwtClaims> {
   /** The action request class */
   private reqCtor: {
     new (...args: any[]): TReq;
     validate(obj: TReq): string[] | undefined;
+    validateFields?(obj: TReq): ActionError[];
   };
   /** The action options */
   private options: ActionOptions = {
@@ -24,6 +27,8 @@ export abstract class ActionBase<TReq, TResponseData> {
   protected headers: Headers;
   /** The request's jwt. Undefined if jwt is missing from the authorization header */
   protected jwt?: string;
+  /** The caller, built from the verified jwt. Undefined if jwt validation is disabled */
+  protected principal?: ActionPrincipal<TClaims>;
   /** Unique identifier for the request */
   protected requestId: string;
   /** List of missing request's required properties, if any */
@@ -33,6 +38,7 @@ export abstract class ActionBase<TReq, TResponseData> {
     ctor: {
       new (...args: any[]): TReq;
       validate(obj: TReq): string[] | undefined;
+      validateFields?(obj: TReq): ActionError[];
     },
     req: TReq,
     headers: Headers
@@ -45,6 +51,27 @@ export abstract class ActionBase<TReq, TResponseData> {
 
   /** Executes the action */
   async execute(): Promise<ActionResponse<TResponseData>> {
+    this.jwt = this.getJwtFromHeaders();
+    // The principal is resolved before the behaviors, so they can use it, but the request is rejected inside them
+    if (this.requiresJwt() && this.verifyJwt()) {
+      this.principal = createActionPrincipal(this.getJwtPayload<TClaims>()!);
+    }
+
+    return await runActionPipeline(
+      {
+        actionName: this.constructor.name,
+        request: this.req,
+        requestId: this.requestId,
+        headers: this.headers,
+        principal: this.principal,
+      },
+      [...getActionBehaviors(), ...(this.options.behaviors ?? [])],
+      () => this.validateAndExecute()
+    );
+  }
+
+  /** Validates the request and authorizes the caller before running executeImpl */
+  private async validateAndExecute(): Promise<ActionResponse<TResponseData>> {
     this.missingRequiredProperties = this.reqCtor.validate(this.req) ?? [];
     if (
       this.missingRequiredProperties &&
@@ -63,9 +90,16 @@ export abstract class ActionBase<TReq, TResponseData> {
       );
     }
 
-    this.jwt = this.getJwtFromHeaders();
+    const invalidFields = this.reqCtor.validateFields?.(this.req) ?? [];
+    if (invalidFields.length > 0) {
+      return this.errorWithErrors(
+        ResponseCodes.BAD_REQUEST,
+        `Invalid fields [${[...new Set(invalidFields.map(error => error.field))].join(",")}]`,
+        invalidFields
+      );
+    }
 
-    if (this.options.enableJwtValidation) {
+    if (this.requiresJwt()) {
       if (this.options.jwtSecret === undefined) {
         throw new Error("jwt secret is required to enable jwt validation");
       }
@@ -79,8 +113,7 @@ export abstract class ActionBase<TReq, TResponseData> {
         );
       }
 
-      const isValid = this.verifyJwt();
-      if (!isValid) {
+      if (!this.principal) {
         return this.error(
           ResponseCodes.UNAUTHORIZED,
           "INVALID_JWT",
@@ -88,11 +121,58 @@ export abstract class ActionBase<TReq, TResponseData> {
           new Error("Invalid jwt")
         );
       }
+
+      const forbidden = await this.authorize(this.principal);
+      if (forbidden) {
+        return forbidden;
+      }
     }
 
     return await this.executeImpl();
   }
 
+  /** Checks the required roles and scopes and the authorization policy. Returns the error response if the caller is not allowed */
+  private async authorize(principal: ActionPrincipal<TClaims>): Promise<ActionResponse<TResponseData> | undefined> {
+    const missingRoles = (this.options.requiredRoles ?? []).filter(role => !principal.roles.includes(role));
+    if (missingRoles.length > 0) {
+      return this.error(
+        ResponseCodes.FORBIDDEN,
+        "MISSING_ROLES",
+        `Missing required roles [${missingRoles.join(",")}]`,
+        new Error(`Missing required roles [${missingRoles.join(",")}]`)
+      );
+    }
+
+    const missingScopes = (this.options.requiredScopes ?? []).filter(scope => !principal.scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      return this.error(
+        ResponseCodes.FORBIDDEN,
+        "MISSING_SCOPES",
+        `Missing required scopes [${missingScopes.join(",")}]`,
+        new Error(`Missing required scopes [${missingScopes.join(",")}]`)
+      );
+    }
+
+    if (this.options.authorize && !(await this.options.authorize(principal, this.req))) {
+      return this.error(
+        ResponseCodes.FORBIDDEN,
+        "ACCESS_DENIED",
+        `Access denied`,
+        new Error("Access denied by the authorization policy")
+      );
+    }
+
+    return undefined;
+  }
+
+  private requiresJwt(): boolean {
+    return !!this.options.enableJwtValidation || this.hasAuthorizationRules();
+  }
+
+  private hasAuthorizationRules(): boolean {
+    return !!this.options.requiredRoles?.length || !!this.options.requiredScopes?.length || !!this.options.authorize;
+  }
+
   /** Sets the options for the action */
   protected setOptions(options: ActionOptions) {
     this.options = { ...this.options, ...options };
@@ -0,0 +1,211 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ConnectionError, DatabaseError, TimeoutError, type Sequelize, type Transaction } from "sequelize";
+import type { LoggerFactory } from "../logger";
+import type { ActionBehavior, ActionExecutionContext } from "./action-pipeline";
+import { ActionResponse } from "./action-response";
+
+/** Cache of the action responses */
+export interface ActionCacheStore {
+  get(key: string): Promise<ActionResponse<any> | undefined>;
+  set(key: string, response: ActionResponse<any>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CachingBehaviorOptions {
+  ttlMs: number;
+  /** Cache key of the execution, undefined to skip the cache.
+   * @default the action name, the caller subject and the serialized request
+   */
+  key?: (context: ActionExecutionContext) => string | undefined;
+  /** @default a MemoryActionCacheStore */
+  store?: ActionCacheStore;
+}
+
+export interface RetryBehaviorOptions {
+  /** Total attempts, including the first one
+   * @default 3
+   */
+  attempts?: number;
+  /** Delay before the first retry, doubled at each retry
+   * @default 100
+   */
+  delayMs?: number;
+  /** Returns true for the errors worth a retry
+   * @default connection errors, lock timeouts, deadlocks and serialization failures
+   */
+  isTransient?: (error: unknown) => boolean;
+}
+
+/** Metric recorded for each action execution */
+export interface ActionMetric {
+  actionName: string;
+  /** Response status, 500 if the action threw */
+  status: number;
+  durationMs: number;
+  /** `success` for 2xx/3xx responses, `failure` for error responses, `error` if the action threw */
+  outcome: "success" | "failure" | "error";
+}
+
+const DEFAULT_MAX_CACHE_ENTRIES = 1000;
+
+// PostgreSQL serialization failure and deadlock
+const TRANSIENT_SQL_STATES = ["40001", "40P01"];
+
+const transactionStore = new AsyncLocalStorage<Transaction>();
+
+/** Keeps the action responses in memory, up to a max number of entries */
+export class MemoryActionCacheStore implements ActionCacheStore {
+  private readonly entries = new Map<string, { response: ActionResponse<any>; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = DEFAULT_MAX_CACHE_ENTRIES) { }
+
+  async get(key: string): Promise<ActionResponse<any> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.response;
+  }
+
+  async set(key: string, response: ActionResponse<any>, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      // Maps keep the insertion order, so the first key is the oldest
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.set(key, { response, expiresAt: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/** Returns the transaction opened by the transaction behavior for the current action, if any */
+export function getActionTransaction(): Transaction | undefined {
+  return transactionStore.getStore();
+}
+
+/** Logs the completion of each action with its status and duration. Slow actions are logged as warnings */
+export function loggingBehavior(loggerFactory: LoggerFactory, options: { slowThresholdMs?: number } = {}): ActionBehavior {
+  return async (context, next) => {
+    const log = loggerFactory.current(context.actionName);
+    const start = performance.now();
+    try {
+      const response = await next();
+      const durationMs = Math.round(performance.now() - start);
+      const data = { requestId: context.requestId, status: response.status, durationMs };
+
+      if (options.slowThresholdMs !== undefined && durationMs > options.slowThresholdMs) {
+        log.warn(`${context.actionName} completed slowly with ${response.status} in ${durationMs}ms`, data);
+      } else {
+        log.info(`${context.actionName} completed with ${response.status} in ${durationMs}ms`, data);
+      }
+      return response;
+    } catch (error) {
+      const durationMs = Math.round(performance.now() - start);
+      log.error(`${context.actionName} failed after ${durationMs}ms`, error as Error, { requestId: context.requestId });
+      throw error;
+    }
+  };
+}
+
+/** Caches the successful responses. Meant for query actions, responses are shared by the executions with the same key */
+export function cachingBehavior(options: CachingBehaviorOptions): ActionBehavior {
+  const store = options.store ?? new MemoryActionCacheStore();
+  const getKey = options.key ??
+    (context => `${context.actionName}:${context.principal?.subject ?? ""}:${JSON.stringify(context.request)}`);
+
+  return async (context, next) => {
+    const key = getKey(context);
+    if (key === undefined) {
+      return next();
+    }
+
+    const cached = await store.get(key);
+    if (cached) {
+      // The response keeps the request id of the current execution
+      return new ActionResponse(context.requestId, cached.status, cached.data, cached.uiMessage, cached.errors);
+    }
+
+    const response = await next();
+    if (response.status < 300) {
+      await store.set(key, response, options.ttlMs);
+    }
+    return response;
+  };
+}
+
+/**
+ * Runs the action in a transaction, committed for success responses and rolled back for error responses and errors.
+ * Queries join the transaction by passing `{ transaction: getActionTransaction() }`.
+ */
+export function transactionBehavior(sequelize: Sequelize): ActionBehavior {
+  return async (_context, next) => {
+    const transaction = await sequelize.transaction();
+    try {
+      const response = await transactionStore.run(transaction, next);
+      if (response.status < 400) {
+        await transaction.commit();
+      } else {
+        await transaction.rollback();
+      }
+      return response;
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  };
+}
+
+/** Retries the action when it throws a transient database error. Register it outside of the transaction behavior */
+export function retryBehavior(options: RetryBehaviorOptions = {}): ActionBehavior {
+  const attempts = options.attempts ?? 3;
+  const delayMs = options.delayMs ?? 100;
+  const isTransient = options.isTransient ?? isTransientDatabaseError;
+
+  return async (_context, next) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next();
+      } catch (error) {
+        if (attempt >= attempts || !isTransient(error)) {
+          throw error;
+        }
+        await Bun.sleep(delayMs * 2 ** (attempt - 1));
+      }
+    }
+  };
+}
+
+/** Records the status, duration and outcome of each action execution */
+export function metricsBehavior(record: (metric: ActionMetric) => void): ActionBehavior {
+  return async (context, next) => {
+    const start = performance.now();
+    const durationMs = () => performance.now() - start;
+    try {
+      const response = await next();
+      record({
+        actionName: context.actionName,
+        status: response.status,
+        durationMs: durationMs(),
+        outcome: response.status < 400 ? "success" : "failure",
+      });
+      return response;
+    } catch (error) {
+      record({ actionName: context.actionName, status: 500, durationMs: durationMs(), outcome: "error" });
+      throw error;
+    }
+  };
+}
+
+/** Connection errors, lock timeouts, deadlocks and serialization failures */
+export function isTransientDatabaseError(error: unknown): boolean {
+  if (error instanceof ConnectionError || error instanceof TimeoutError) {
+    return true;
+  }
+  const sqlState = (error as DatabaseError)?.parent as { code?: string } | undefined;
+  return error instanceof DatabaseError && TRANSIENT_SQL_STATES.includes(sqlState?.code ?? "");
+}
@@ -1,3 +1,9 @@
+import type { ActionBehavior } from "./action-pipeline"
+import type { ActionPrincipal } from "./action-principal"
+
+/** Custom authorization policy. Returns false to reject the request with 403 */
+export type ActionAuthorizationPolicy<TReq = any> = (principal: ActionPrincipal<any>, request: TReq) => boolean | Promise<boolean>
+
 /** Action options use to customize action behavior */
 export interface ActionOptions {
   /** If true, will automatically send a BAD REQUEST (400) json response when missing parameters are detected
@@ -14,4 +20,16 @@ export interface ActionOptions {
    * @default false
    */
   enableJwtValidation?: boolean
+
+  /** Roles the caller must all have, from the `roles` claim of the jwt. Enables jwt validation */
+  requiredRoles?: string[]
+
+  /** Scopes the caller must all have, from the `scope` or `scp` claims of the jwt. Enables jwt validation */
+  requiredScopes?: string[]
+
+  /** Custom policy evaluated after the role and scope checks. Enables jwt validation */
+  authorize?: ActionAuthorizationPolicy
+
+  /** Behaviors wrapping the execution of this action, inside the global ones (see `useActionBehaviors`) */
+  behaviors?: ActionBehavior[]
 }
\ No newline at end of file
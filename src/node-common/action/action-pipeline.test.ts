@@ -0,0 +1,132 @@
+/**
+ * Action pipeline tests
+ */
+
+import { afterEach, describe, expect, it } from "bun:test";
+import { ConnectionError } from "sequelize";
+import { ActionBase } from "./action-base";
+import { cachingBehavior, getActionTransaction, loggingBehavior, metricsBehavior, retryBehavior, transactionBehavior, type ActionMetric } from "./action-behaviors";
+import type { ActionOptions } from "./action-options";
+import { clearActionBehaviors, useActionBehaviors, type ActionBehavior } from "./action-pipeline";
+import { ActionRequestBase } from "./action-request-base";
+import type { ActionResponse } from "./action-response";
+
+class CountRequest extends ActionRequestBase {
+  name?: string;
+}
+
+class CountAction extends ActionBase<CountRequest, number> {
+  constructor(request: CountRequest, options: ActionOptions, private readonly impl: () => Promise<ActionResponse<number>> | ActionResponse<number>) {
+    super(CountRequest, request, new Headers());
+    this.setOptions(options);
+  }
+
+  protected async executeImpl(): Promise<ActionResponse<number>> {
+    return this.impl();
+  }
+
+  ok(value: number) {
+    return this.success(value);
+  }
+
+  fail() {
+    return this.error(409, "CONFLICT", "Conflict");
+  }
+}
+
+function tracing(name: string, calls: string[]): ActionBehavior {
+  return async (_context, next) => {
+    calls.push(`${name}:before`);
+    const response = await next();
+    calls.push(`${name}:after`);
+    return response;
+  };
+}
+
+describe("action pipeline", () => {
+  afterEach(() => clearActionBehaviors());
+
+  it("should run the global behaviors around the behaviors of the action", async () => {
+    const calls: string[] = [];
+    useActionBehaviors(tracing("global", calls));
+
+    const action: CountAction = new CountAction({}, { behaviors: [tracing("action", calls)] }, () => {
+      calls.push("execute");
+      return action.ok(1);
+    });
+    const response = await action.execute();
+
+    expect(response.data).toBe(1);
+    expect(calls).toEqual(["global:before", "action:before", "execute", "action:after", "global:after"]);
+  });
+
+  it("should retry transient errors", async () => {
+    let attempts = 0;
+    const action: CountAction = new CountAction({}, { behaviors: [retryBehavior({ delayMs: 1 })] }, () => {
+      attempts++;
+      if (attempts < 3) throw new ConnectionError(new Error("connection reset"));
+      return action.ok(attempts);
+    });
+
+    expect((await action.execute()).data).toBe(3);
+    await expect(new CountAction({}, { behaviors: [retryBehavior({ delayMs: 1 })] }, () => { throw new Error("bug"); }).execute())
+      .rejects.toThrow("bug");
+  });
+
+  it("should cache the successful responses by request", async () => {
+    const caching = cachingBehavior({ ttlMs: 60000 });
+    let executions = 0;
+    const run = (name: string) => {
+      const action: CountAction = new CountAction({ name }, { behaviors: [caching] }, () => action.ok(++executions));
+      return action.execute();
+    };
+
+    const first = await run("a");
+    const second = await run("a");
+    await run("b");
+
+    expect(second.data).toBe(first.data);
+    expect(second.requestId).not.toBe(first.requestId);
+    expect(executions).toBe(2);
+  });
+
+  it("should commit or roll back the transaction and record metrics", async () => {
+    const events: string[] = [];
+    const sequelize = {
+      transaction: async () => ({
+        commit: async () => { events.push("commit"); },
+        rollback: async () => { events.push("rollback"); },
+      }),
+    } as any;
+    const metrics: ActionMetric[] = [];
+    const behaviors = [metricsBehavior(metric => metrics.push(metric)), transactionBehavior(sequelize)];
+
+    const succeeding: CountAction = new CountAction({}, { behaviors }, () => {
+      expect(getActionTransaction()).toBeDefined();
+      return succeeding.ok(1);
+    });
+    const failing: CountAction = new CountAction({}, { behaviors }, () => failing.fail());
+    await succeeding.execute();
+    await failing.execute();
+
+    expect(events).toEqual(["commit", "rollback"]);
+    expect(metrics.map(metric => [metric.actionName, metric.status, metric.outcome])).toEqual([
+      ["CountAction", 200, "success"],
+      ["CountAction", 409, "failure"],
+    ]);
+  });
+
+  it("should log and record the requests rejected by the authorization", async () => {
+    const logs: string[] = [];
+    const log = { info: (message: string) => logs.push(message), warn: () => {}, error: () => {} };
+    const metrics: ActionMetric[] = [];
+    useActionBehaviors(loggingBehavior({ current: () => log } as any), metricsBehavior(metric => metrics.push(metric)));
+
+    const action: CountAction = new CountAction({}, { jwtSecret: "secret", requiredRoles: ["admin"] }, () => action.ok(1));
+    const response = await action.execute();
+
+    expect(response.status).toBe(401);
+    expect(logs).toEqual([expect.stringContaining("CountAction completed with 401")]);
+    expect(metrics.map(metric => [metric.status, metric.outcome])).toEqual([[401, "failure"]]);
+  });
+});
@@ -0,0 +1,53 @@
+import type { ActionPrincipal } from "./action-principal";
+import type { ActionResponse } from "./action-response";
+
+/** Data of the action execution, shared with the behaviors */
+export interface ActionExecutionContext<TReq = any> {
+  /** Name of the action class */
+  actionName: string;
+  request: TReq;
+  requestId: string;
+  headers: Headers;
+  /** The caller, when jwt validation is enabled and the jwt is valid. Set before the authorization rules are checked */
+  principal?: ActionPrincipal<any>;
+}
+
+/** Runs the next behaviors and the action */
+export type ActionNext = () => Promise<ActionResponse<any>>;
+
+/**
+ * Wraps the execution of an action, onion style, like an HTTP middleware.
+ * A behavior can run code before and after `next()`, replace the response, or not call `next` to short-circuit the action.
+ * Behaviors run around the request validation and the authorization, so they also see the rejected requests.
+ */
+export type ActionBehavior = (context: ActionExecutionContext, next: ActionNext) => Promise<ActionResponse<any>>;
+
+const globalBehaviors: ActionBehavior[] = [];
+
+/** Registers behaviors applied to every action, before (outside of) the behaviors of the action class */
+export function useActionBehaviors(...behaviors: ActionBehavior[]): void {
+  globalBehaviors.push(...behaviors);
+}
+
+/** Removes the global behaviors */
+export function clearActionBehaviors(): void {
+  globalBehaviors.length = 0;
+}
+
+/** Returns the global behaviors, in execution order */
+export function getActionBehaviors(): readonly ActionBehavior[] {
+  return globalBehaviors;
+}
+
+/** Runs the behaviors around the handler. The first behavior is the outermost */
+export function runActionPipeline<TResponseData>(
+  context: ActionExecutionContext,
+  behaviors: readonly ActionBehavior[],
+  handler: () => Promise<ActionResponse<TResponseData>>
+): Promise<ActionResponse<TResponseData>> {
+  const dispatch = (index: number): Promise<ActionResponse<any>> => {
+    const behavior = behaviors[index];
+    return behavior ? behavior(context, () => dispatch(index + 1)) : handler();
+  };
+  return dispatch(0);
+}
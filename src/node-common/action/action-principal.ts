@@ -0,0 +1,48 @@
+/** Claims of a verified JWT */
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  /** Roles of the caller */
+  roles?: string | string[];
+  /** OAuth scopes of the caller, space separated */
+  scope?: string;
+  /** OAuth scopes of the caller, as issued by some providers */
+  scp?: string | string[];
+  [claim: string]: any;
+}
+
+/** The authenticated caller of an action */
+export interface ActionPrincipal<TClaims extends object = JwtClaims> {
+  /** The `sub` claim */
+  subject?: string;
+  /** Roles from the `roles` claim */
+  roles: string[];
+  /** Scopes from the `scope` (space separated) or `scp` claims */
+  scopes: string[];
+  /** All the claims of the JWT */
+  claims: TClaims;
+}
+
+/** Builds the principal from the claims of a verified JWT */
+export function createActionPrincipal<TClaims extends object>(claims: TClaims): ActionPrincipal<TClaims> {
+  const { sub, roles, scope, scp } = claims as JwtClaims;
+  return {
+    subject: typeof sub === "string" ? sub : undefined,
+    roles: toList(roles),
+    scopes: [...new Set([...toList(scope, " "), ...toList(scp, " ")])],
+    claims,
+  };
+}
+
+function toList(value: unknown, separator = ","): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === "string");
+  }
+  if (typeof value === "string") {
+    return value.split(separator).map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+}
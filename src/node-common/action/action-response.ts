@@ -1,6 +1,8 @@
 export interface ActionError {
   code: string;
   message: string;
+  /** The invalid field, for validation errors */
+  field?: string;
   stack?: string;
 }
 
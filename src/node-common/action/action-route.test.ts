@@ -0,0 +1,104 @@
+/**
+ * defineAction tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { BunApiServer, type BunApiServerRequest } from "../api-server";
+import { LoggerFactory } from "../logger";
+import { schema } from "../schema";
+import { ActionBase } from "./action-base";
+import { ActionRequestBase } from "./action-request-base";
+import type { ActionResponse } from "./action-response";
+import { buildActionRequest, REQUEST_ID_HEADER } from "./action-route";
+import { isInt, required } from "./request-validators";
+
+const PORT = 39416;
+const BASE_URL = `http://localhost:${PORT}`;
+
+class CreateOrderRequest extends ActionRequestBase {
+  @required customerId!: string;
+  @isInt({ min: 1 }) quantity?: number;
+}
+
+class CreateOrderAction extends ActionBase<CreateOrderRequest, CreateOrderRequest> {
+  constructor(request: CreateOrderRequest, headers: Headers) {
+    super(CreateOrderRequest, request, headers);
+    this.setOptions({ badRequestOnMissingParameters: true });
+  }
+
+  protected async executeImpl(): Promise<ActionResponse<CreateOrderRequest>> {
+    return this.success({ customerId: this.req.customerId, quantity: this.req.quantity });
+  }
+}
+
+describe("defineAction", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, PORT);
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    server.defineAction("POST", "/orders", CreateOrderAction, CreateOrderRequest);
+    server.defineAction("GET", "/customers/:customerId/orders", CreateOrderAction, CreateOrderRequest);
+    server.defineAction("GET", "/customers/:customerId/coerced-orders", CreateOrderAction, CreateOrderRequest, {
+      schema: { query: schema.object({ quantity: schema.int().optional() }) },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+  });
+
+  it("should accept a request with the required fields in the body", async () => {
+    const response = await fetch(`${BASE_URL}/orders`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ customerId: "c-1", quantity: 2 }),
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ customerId: "c-1", quantity: 2 });
+    expect(response.headers.get(REQUEST_ID_HEADER)).toBe(body.requestId);
+  });
+
+  it("should reject a request missing a required field", async () => {
+    const response = await fetch(`${BASE_URL}/orders`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ quantity: 2 }),
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors[0].code).toBe("MISSING_REQUIRED_FIELDS");
+  });
+
+  it("should copy the path params and keep the query values as strings", async () => {
+    const response = await fetch(`${BASE_URL}/customers/c-2/orders?quantity=3`);
+    const body: any = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors[0].field).toBe("quantity");
+  });
+
+  it("should coerce the query values with the route schema", async () => {
+    const response = await fetch(`${BASE_URL}/customers/c-2/coerced-orders?quantity=3`);
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual({ customerId: "c-2", quantity: 3 });
+  });
+});
+
+describe("buildActionRequest", () => {
+  it("should not copy __proto__ and constructor from the body", () => {
+    const body = JSON.parse(`{ "__proto__": { "isAdmin": true }, "constructor": "x", "customerId": "c-1" }`);
+    const request = buildActionRequest(CreateOrderRequest, { query: {}, params: {}, body } as unknown as BunApiServerRequest);
+
+    expect(request).toBeInstanceOf(CreateOrderRequest);
+    expect(request.customerId).toBe("c-1");
+    expect((request as any).isAdmin).toBeUndefined();
+    expect(Object.hasOwn(request, "constructor")).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import type { BunApiServerRequest, BunRouteHandler, BunRouteOptions } from "../api-server";
+import type { ActionBase } from "./action-base";
+import type { ActionResponse } from "./action-response";
+
+/** Header carrying the request id of the action */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+/** Keys of the HTTP request that would change the prototype of the action request */
+const UNSAFE_REQUEST_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/** HTTP methods an action can be bound to */
+export type ActionRouteMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** Constructor of an action bound to a route. The request and the headers come first, then the dependencies */
+export type ActionConstructor<TReq, TResponseData> = new (
+  request: TReq,
+  headers: Headers,
+  ...dependencies: any[]
+) => ActionBase<TReq, TResponseData, any>;
+
+/** Constructor of the request class of an action */
+export type ActionRequestConstructor<TReq> = new () => TReq;
+
+/** Options of a route bound to an action */
+export interface ActionRouteOptions extends BunRouteOptions {
+  /** Extra arguments passed to the action constructor after the request and the headers, e.g. services */
+  dependencies?: unknown[];
+}
+
+/**
+ * Builds the action request from the HTTP request.
+ * Query values, body properties and path params are copied in this order, so params win over the body and the body over the query.
+ * Query values and path params are strings, unless the route `schema` coerces them (e.g. `schema.int()` for an `@isInt` field).
+ * `__proto__`, `constructor` and `prototype` are not copied, so the request keeps the prototype of its class.
+ */
+export function buildActionRequest<TReq>(requestCtor: ActionRequestConstructor<TReq>, req: BunApiServerRequest): TReq {
+  const body = req.body && typeof req.body === "object" && !Array.isArray(req.body) ? req.body : {};
+  const request = new requestCtor() as Record<string, unknown>;
+  for (const source of [req.query, body, req.params]) {
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (!UNSAFE_REQUEST_KEYS.has(key)) {
+        request[key] = value;
+      }
+    }
+  }
+  return request as TReq;
+}
+
+/** Serializes an action response. Error stacks are only included outside production */
+export function serializeActionResponse(response: ActionResponse<any>, includeStacks = process.env.NODE_ENV !== "production") {
+  return {
+    requestId: response.requestId,
+    status: response.status,
+    data: response.data,
+    uiMessage: response.uiMessage,
+    errors: response.errors?.map(({ stack, ...error }) => (includeStacks ? { ...error, stack } : error)),
+  };
+}
+
+/** Creates the route handler running the action with the request built from the HTTP request */
+export function createActionHandler<TReq, TResponseData>(
+  actionCtor: ActionConstructor<TReq, TResponseData>,
+  requestCtor: ActionRequestConstructor<TReq>,
+  options: ActionRouteOptions = {}
+): BunRouteHandler {
+  return async (req, res) => {
+    const request = buildActionRequest(requestCtor, req);
+    const headers = req.raw?.headers ?? new Headers(req.headers as Record<string, string>);
+    const action = new actionCtor(request, headers, ...(options.dependencies ?? []));
+
+    const response = await action.execute();
+    res.status(response.status)
+      .set(REQUEST_ID_HEADER, response.requestId)
+      .json(serializeActionResponse(response));
+  };
+}
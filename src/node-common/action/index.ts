@@ -1,5 +1,10 @@
 export * from "./action-base";
+export * from "./action-behaviors";
 export * from "./action-options";
+export * from "./action-pipeline";
+export * from "./action-principal";
 export * from "./action-request-base";
 export * from "./action-response";
 export * from "./action-response-codes";
+export * from "./action-route";
+export * from "./request-validators";
@@ -0,0 +1,80 @@
+/**
+ * Request validation decorator tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { UUID } from "../uuid";
+import { ActionRequestBase } from "./action-request-base";
+import { each, isEmail, isEnum, isInt, isString, isUuid, matches, maxLength, nested, required } from "./request-validators";
+
+enum OrderPriority { Low, High }
+
+class AddressRequest {
+  @required @isString city!: string;
+  @matches(/^\d{5}$/) zip?: string;
+}
+
+class CreateOrderRequest extends ActionRequestBase {
+  @required @isUuid(4) customerId!: string;
+  @required @isInt({ min: 1, max: 100 }) quantity!: number;
+  @isEmail email?: string;
+  @maxLength(10) note?: string;
+  @isEnum(OrderPriority) priority?: OrderPriority;
+  @nested(AddressRequest) address?: AddressRequest;
+  @each(isString, maxLength(3)) tags?: string[];
+}
+
+describe("request validators", () => {
+  it("should accept valid requests", () => {
+    const request = Object.assign(new CreateOrderRequest(), {
+      customerId: UUID.getV4(),
+      quantity: 3,
+      email: "buyer@example.com",
+      priority: OrderPriority.High,
+      address: { city: "Milan", zip: "20121" },
+      tags: ["a", "bcd"],
+    });
+
+    expect(CreateOrderRequest.validate(request)).toBeUndefined();
+    expect(CreateOrderRequest.validateFields(request)).toEqual([]);
+  });
+
+  it("should report missing required fields by name", () => {
+    expect(CreateOrderRequest.validate(new CreateOrderRequest())).toEqual(["customerId", "quantity"]);
+  });
+
+  it("should report an error per invalid field", () => {
+    const errors = CreateOrderRequest.validateFields({
+      customerId: UUID.getV1(),
+      quantity: 1.5,
+      email: "not-an-email",
+      note: "way too long",
+      priority: 5 as OrderPriority,
+      address: { zip: "abc" } as AddressRequest,
+      tags: ["ok", "toolong", 3 as any],
+    } as CreateOrderRequest);
+
+    expect(errors.map(error => [error.field, error.code])).toEqual([
+      ["customerId", "IS_UUID"],
+      ["quantity", "IS_INT"],
+      ["email", "IS_EMAIL"],
+      ["note", "MAX_LENGTH"],
+      ["priority", "IS_ENUM"],
+      ["address.city", "MISSING_REQUIRED_FIELDS"],
+      ["address.zip", "MATCHES"],
+      ["tags[1]", "MAX_LENGTH"],
+      ["tags[2]", "IS_STRING"],
+      ["tags[2]", "MAX_LENGTH"],
+    ]);
+  });
+
+  it("should support legacy (experimentalDecorators) property decorators", () => {
+    class LegacyRequest { name?: any; }
+    required(LegacyRequest.prototype, "name");
+    isString(LegacyRequest.prototype, "name");
+
+    expect(ActionRequestBase.validate.call(LegacyRequest as any, new LegacyRequest())).toEqual(["name"]);
+    expect(ActionRequestBase.validateFields.call(LegacyRequest as any, Object.assign(new LegacyRequest(), { name: 1 })))
+      .toEqual([{ code: "IS_STRING", field: "name", message: "name must be a string" }]);
+  });
+});
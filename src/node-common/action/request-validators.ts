@@ -0,0 +1,195 @@
+import { UUID } from "../uuid";
+import type { ActionError } from "./action-response";
+
+/** Validates the value of a field. Returns the errors of the field, and of its nested fields, if any */
+export type FieldValidator = (value: any, field: string) => ActionError[];
+
+/** A property decorator, carrying its validator so it can be composed with `each` */
+export type FieldDecorator = ((target: any, propertyKey: any) => void) & { readonly validator: FieldValidator };
+
+export interface IsIntOptions {
+  min?: number;
+  max?: number;
+}
+
+const requiredProperties = new Map<Function, string[]>();
+const fieldValidators = new Map<Function, Map<string, FieldValidator[]>>();
+
+// Simplified RFC 5322 address: local part, @, domain with at least one dot
+const EMAIL_REGEX = /^[^\s@"]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Registers a decorated property, with both legacy (`experimentalDecorators`) and standard decorators.
+ * Standard field decorators have no access to the class, so the property is registered when the first instance is created.
+ */
+function onFieldDecorated(target: any, propertyKey: any, register: (ctor: Function, property: string) => void) {
+  if (typeof propertyKey === "object" && propertyKey?.kind === "field") {
+    const property = String(propertyKey.name);
+    propertyKey.addInitializer(function (this: any) {
+      register(this.constructor, property);
+    });
+    return;
+  }
+  register(target.constructor, propertyKey);
+}
+
+/** Creates a property decorator running the validator on the non-null values of the property */
+export function createFieldDecorator(validator: FieldValidator): FieldDecorator {
+  const decorator = (target: any, propertyKey: any) => onFieldDecorated(target, propertyKey, (ctor, property) => {
+    const validators = fieldValidators.get(ctor) ?? new Map<string, FieldValidator[]>();
+    const propertyValidators = validators.get(property) ?? [];
+    if (!propertyValidators.includes(validator)) {
+      propertyValidators.push(validator);
+    }
+    validators.set(property, propertyValidators);
+    fieldValidators.set(ctor, validators);
+  });
+  return Object.assign(decorator, { validator });
+}
+
+/**
+ * A decorator used to mark properties as required in a class.
+ * When applied to a property, this decorator adds the property key to a registry
+ * which is then used for validation. This registry is stored in a Map where each
+ * class's constructor serves as the key, and the array of required property names
+ * as the value.
+ *
+ * @param target - The constructor function of the class for the instance member.
+ * @param propertyKey - The name of the property.
+ */
+export const required = (target: any, propertyKey: any): void => {
+  onFieldDecorated(target, propertyKey, (ctor, property) => {
+    const props = requiredProperties.get(ctor) ?? [];
+    if (!props.includes(property)) {
+      props.push(property);
+    }
+    requiredProperties.set(ctor, props);
+  });
+};
+
+/** The value must be a string */
+export const isString = createFieldDecorator((value, field) =>
+  typeof value === "string" ? [] : [fieldError("IS_STRING", field, `${field} must be a string`)]
+);
+
+/** The value must be an integer, within the optional bounds */
+export const isInt = (options: IsIntOptions = {}): FieldDecorator => createFieldDecorator((value, field) => {
+  const inRange = (options.min === undefined || value >= options.min) && (options.max === undefined || value <= options.max);
+  if (Number.isInteger(value) && inRange) {
+    return [];
+  }
+
+  const bounds = [
+    options.min !== undefined ? `>= ${options.min}` : undefined,
+    options.max !== undefined ? `<= ${options.max}` : undefined,
+  ].filter(Boolean);
+  return [fieldError("IS_INT", field, `${field} must be an integer${bounds.length ? ` ${bounds.join(" and ")}` : ""}`)];
+});
+
+/** The value must be an email address */
+export const isEmail = createFieldDecorator((value, field) =>
+  typeof value === "string" && EMAIL_REGEX.test(value) ? [] : [fieldError("IS_EMAIL", field, `${field} must be a valid email address`)]
+);
+
+/** The value must be a UUID, of the given version if any */
+export const isUuid = (version?: number): FieldDecorator => createFieldDecorator((value, field) => {
+  const valid = typeof value === "string" && UUID.validate(value) && (version === undefined || UUID.version(value) === version);
+  return valid ? [] : [fieldError("IS_UUID", field, `${field} must be a valid UUID${version !== undefined ? ` v${version}` : ""}`)];
+});
+
+/** The string or array must have at most `length` characters or items */
+export const maxLength = (length: number): FieldDecorator => createFieldDecorator((value, field) =>
+  (typeof value === "string" || Array.isArray(value)) && value.length <= length
+    ? []
+    : [fieldError("MAX_LENGTH", field, `${field} must have a length of at most ${length}`)]
+);
+
+/** The string must match the pattern */
+export const matches = (pattern: RegExp, message?: string): FieldDecorator => createFieldDecorator((value, field) =>
+  typeof value === "string" && pattern.test(value) ? [] : [fieldError("MATCHES", field, message ?? `${field} has an invalid format`)]
+);
+
+/** The value must be one of the values of the enum, or of the list */
+export const isEnum = (values: object | readonly unknown[]): FieldDecorator => {
+  const allowed = Array.isArray(values)
+    ? values
+    // Numeric enums also map the values back to the names, which are not valid values
+    : Object.entries(values).filter(([key]) => Number.isNaN(Number(key))).map(([, value]) => value);
+
+  return createFieldDecorator((value, field) =>
+    allowed.includes(value) ? [] : [fieldError("IS_ENUM", field, `${field} must be one of [${allowed.join(",")}]`)]
+  );
+};
+
+/** The value must be an object, validated with the required properties and the decorators of the given class */
+export const nested = (type: new () => object): FieldDecorator => createFieldDecorator((value, field) => {
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return [fieldError("IS_OBJECT", field, `${field} must be an object`)];
+  }
+
+  const instance = value instanceof type ? value : Object.assign(new type(), value);
+  return [
+    ...getMissingRequiredProperties(instance).map(property =>
+      fieldError("MISSING_REQUIRED_FIELDS", `${field}.${property}`, `Missing required field ${field}.${property}`)
+    ),
+    ...validateFields(instance, `${field}.`),
+  ];
+});
+
+/** The value must be an array, with each item validated by the given decorators, e.g. `@each(isString, maxLength(20))` */
+export const each = (...decorators: FieldDecorator[]): FieldDecorator => createFieldDecorator((value, field) => {
+  if (!Array.isArray(value)) {
+    return [fieldError("IS_ARRAY", field, `${field} must be an array`)];
+  }
+
+  return value.flatMap((item, index) => item === undefined || item === null
+    ? []
+    : decorators.flatMap(decorator => decorator.validator(item, `${field}[${index}]`))
+  );
+});
+
+/** Returns the required properties of the object that are undefined or null */
+export function getMissingRequiredProperties(obj: any): string[] {
+  const required = new Set(collectFromClassHierarchy(obj, ctor => requiredProperties.get(ctor) ?? []));
+  return [...required].filter(property => obj[property] === undefined || obj[property] === null);
+}
+
+/**
+ * Runs the validators of the decorated properties of the object. Undefined and null values are skipped,
+ * they are reported by the `required` check.
+ * @param path Prefix of the field names, for nested objects
+ */
+export function validateFields(obj: any, path = ""): ActionError[] {
+  const validators = new Map<string, Set<FieldValidator>>();
+  for (const [property, propertyValidators] of collectFromClassHierarchy(obj, ctor => [...(fieldValidators.get(ctor) ?? [])])) {
+    const set = validators.get(property) ?? new Set<FieldValidator>();
+    propertyValidators.forEach(validator => set.add(validator));
+    validators.set(property, set);
+  }
+
+  const errors: ActionError[] = [];
+  for (const [property, propertyValidators] of validators) {
+    const value = obj[property];
+    if (value === undefined || value === null) continue;
+
+    for (const validator of propertyValidators) {
+      errors.push(...validator(value, `${path}${property}`));
+    }
+  }
+  return errors;
+}
+
+/** Collects the registrations of the class of the object and of its base classes */
+function collectFromClassHierarchy<T>(obj: any, get: (ctor: Function) => T[]): T[] {
+  const items: T[] = [];
+  let ctor = obj?.constructor;
+  while (typeof ctor === "function" && ctor !== Object) {
+    items.push(...get(ctor));
+    ctor = Object.getPrototypeOf(ctor);
+  }
+  return items;
+}
+
+function fieldError(code: string, field: string, message: string): ActionError {
+  return { code, message, field };
+}
@@ -2,12 +2,45 @@ export class ApiServerConstants {
   /** 200 - Success */
   static SUCCESS = 200
 
+  /** 201 - Created */
+  static CREATED = 201
+
+  /** 204 - No Content */
+  static NO_CONTENT = 204
+
   /** 400 - Bad Request */
   static BAD_REQUEST = 400
 
   /** 401 - Unauthorized */
   static UNAUTHORIZED = 401
 
+  /** 403 - Forbidden */
+  static FORBIDDEN = 403
+
+  /** 404 - Not Found */
+  static NOT_FOUND = 404
+
+  /** 405 - Method Not Allowed */
+  static METHOD_NOT_ALLOWED = 405
+
+  /** 409 - Conflict */
+  static CONFLICT = 409
+
+  /** 413 - Payload Too Large */
+  static PAYLOAD_TOO_LARGE = 413
+
+  /** 422 - Unprocessable Entity */
+  static UNPROCESSABLE_ENTITY = 422
+
+  /** 426 - Upgrade Required */
+  static UPGRADE_REQUIRED = 426
+
+  /** 429 - Too Many Requests */
+  static TOO_MANY_REQUESTS = 429
+
   /** 500 - Internal Server Error */
   static INTERNAL_SERVER_ERROR = 500
+
+  /** 503 - Service Unavailable */
+  static SERVICE_UNAVAILABLE = 503
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { ApiServerConstants } from "./api-server-constants";
+import { HttpError } from "./http-errors";
+
+/** Thrown when the request body exceeds the configured size limits. Answered with a 413 problem details response */
+export class PayloadTooLargeError extends HttpError {
+  constructor(message = "Request body too large") {
+    super(ApiServerConstants.PAYLOAD_TOO_LARGE, message);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/** Thrown when the request body can't be parsed according to its content type. Answered with a 400 problem details response */
+export class InvalidRequestBodyError extends HttpError {
+  constructor(message: string) {
+    super(ApiServerConstants.BAD_REQUEST, message);
+    this.name = "InvalidRequestBodyError";
+  }
+}
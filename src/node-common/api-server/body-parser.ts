@@ -0,0 +1,82 @@
+import { InvalidRequestBodyError, PayloadTooLargeError } from "./body-errors";
+import { getMultipartBoundary, parseMultipart, type MultipartOptions, type UploadedFile } from "./multipart";
+
+export interface BodyParserOptions {
+  /** Max body size in bytes */
+  limitBytes: number;
+  multipart?: MultipartOptions;
+}
+
+export interface ParsedBody {
+  body: any;
+  files?: { [fieldName: string]: UploadedFile[] };
+}
+
+/**
+ * Parses the request body according to its content type.
+ * Supports JSON, urlencoded forms, text and multipart/form-data.
+ * @throws PayloadTooLargeError if the body exceeds the limit
+ * @throws InvalidRequestBodyError if the body can't be parsed
+ */
+export async function parseRequestBody(req: Request, options: BodyParserOptions): Promise<ParsedBody> {
+  const contentType = req.headers.get('content-type');
+
+  if (!contentType || !req.body) {
+    return { body: undefined };
+  }
+
+  // Reject early when the declared size is already over the limit
+  const contentLength = Number(req.headers.get('content-length'));
+  if (contentLength > options.limitBytes) {
+    throw new PayloadTooLargeError();
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    const boundary = getMultipartBoundary(contentType);
+    if (!boundary) {
+      throw new InvalidRequestBodyError('Missing multipart boundary');
+    }
+    const { fields, files } = await parseMultipart(req.body, boundary, options.limitBytes, options.multipart);
+    return { body: fields, files };
+  }
+
+  if (contentType.includes('application/json')) {
+    const text = await readBodyText(req.body, options.limitBytes);
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      throw new InvalidRequestBodyError('Invalid JSON in request body');
+    }
+  }
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const text = await readBodyText(req.body, options.limitBytes);
+    const result: any = {};
+    for (const [key, value] of new URLSearchParams(text).entries()) {
+      result[key] = value;
+    }
+    return { body: result };
+  }
+
+  if (contentType.includes('text/')) {
+    return { body: await readBodyText(req.body, options.limitBytes) };
+  }
+
+  return { body: undefined };
+}
+
+/** Reads the whole body as text, failing as soon as it exceeds the limit */
+async function readBodyText(stream: ReadableStream<Uint8Array>, limitBytes: number): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.byteLength;
+    if (size > limitBytes) {
+      throw new PayloadTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
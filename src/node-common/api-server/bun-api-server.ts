@@ -1,66 +1,102 @@
+import { randomUUID } from "crypto";
+import {
+  createActionHandler,
+  type ActionConstructor,
+  type ActionRequestConstructor,
+  type ActionRouteMethod,
+  type ActionRouteOptions,
+} from "../action";
+import type { HealthCheckRegistry, HealthReport } from "../health";
 import type { ScopedLogger } from "../logger";
 import { LoggerFactory, RequestTracingMiddleware } from "../logger";
+import { ApiServerConstants } from "./api-server-constants";
+import { InvalidRequestBodyError, PayloadTooLargeError } from "./body-errors";
+import { parseRequestBody, type ParsedBody } from "./body-parser";
+import { BunRouter } from "./bun-router";
+import {
+  compressBody,
+  DEFAULT_COMPRESSION_OPTIONS,
+  isCompressible,
+  negotiateEncoding,
+  type CompressionOptions,
+} from "./compression";
+import { createNotModifiedResponse, createWeakEtag, isNotModified } from "./conditional-get";
+import type {
+  BunApiServerInterface,
+  BunApiServerRequest,
+  BunApiServerResponse,
+  BunControllerRegistrar,
+  BunMiddleware,
+  BunRouteDefinition,
+  BunRouteHandler,
+  BunRouteOptions,
+  BunRouteSchema,
+  BunSchemaRequest,
+} from "./bun-types";
+import { applyCorsHeaders, createPreflightResponse } from "./cors";
 import type { CorsSettings } from "./cors-settings";
 import { DEFAULT_CORS_SETTINGS } from "./cors-settings";
-
-// Inline types to avoid import issues
-interface BunApiServerRequest {
-  body: any;
-  params: { [key: string]: string };
-  query: { [key: string]: any };
-  headers: { [key: string]: string | string[] | undefined };
-  method: string;
-  url: string;
-  path: string;
-  ip: string;
-  get(name: string): string | undefined;
-  header(name: string): string | string[] | undefined;
-  log?: any;
-  user?: any;
-  [key: string]: any;
-}
-
-interface BunApiServerResponse {
-  status(code: number): BunApiServerResponse;
-  send(body: any): BunApiServerResponse;
-  json(body: any): BunApiServerResponse;
-  set(field: string, value: string | string[]): BunApiServerResponse;
-  header(field: string, value: string | string[]): BunApiServerResponse;
-  get(field: string): string | undefined;
-  redirect(url: string): BunApiServerResponse;
-  redirect(status: number, url: string): BunApiServerResponse;
-  statusCode: number;
-  headersSent: boolean;
-  _getResponse(): Response;
-  [key: string]: any;
-}
-
-type BunRouteHandler = (req: BunApiServerRequest, res: BunApiServerResponse) => void | Promise<void>;
-type BunControllerRegistrar = (api: BunApiServer) => void;
-type BunMiddleware = (req: BunApiServerRequest, res: BunApiServerResponse, next: () => Promise<void>) => Promise<void | Response>;
+import { createProblemResponse, toHttpError } from "./http-errors";
+import { appendVary } from "./http-headers";
+import { composeMiddlewares } from "./middleware-chain";
+import { deleteUploadedFiles, deleteUploadedFilesAfter } from "./multipart";
+import {
+  compileProxyTrust,
+  resolveClientAddress,
+  type ForwardedHeaders,
+  type ProxyTrust,
+  type TrustProxySetting,
+} from "./proxy-trust";
+import { generateOpenApiDocument, type OpenApiDocument, type OpenApiOptions } from "./openapi";
+import { withSchemaValidation } from "./request-validation";
+import { RouteTree, type RouteLookupResult } from "./route-tree";
+import { createFileResponse, type SendFileOptions } from "./send-file";
+import { createSseStream, type SseOptions, type SseWriter } from "./server-sent-events";
+import {
+  DEFAULT_SHUTDOWN_OPTIONS,
+  waitWithTimeout,
+  type GracefulShutdownOptions,
+  type ShutdownHook,
+  type ShutdownOptions,
+} from "./shutdown";
+import {
+  BunWebSocketConnection,
+  createWebSocketHandler,
+  WEBSOCKET_GOING_AWAY,
+  type WebSocketConnectionData,
+  type WebSocketHandlers,
+  type WebSocketMessageMap,
+  type WebSocketRouteDefinition,
+  type WebSocketRouteOptions,
+} from "./websocket";
 
 const DEFAULT_PORT = 3000;
+const DEFAULT_REQUEST_SIZE_LIMIT_MB = 50;
+const BYTES_PER_MB = 1024 * 1024;
 
-interface Route {
-  method: string;
-  path: string;
-  handler: BunRouteHandler;
-  pathPattern?: RegExp;
-  paramNames?: string[];
-}
-
-export class BunApiServer {
+export class BunApiServer implements BunApiServerInterface {
   private readonly port: number = DEFAULT_PORT;
   private readonly loggerFactory: LoggerFactory;
   private readonly logger: ScopedLogger;
-  private readonly routes: Route[] = [];
+  private readonly routes = new RouteTree<BunRouteDefinition>();
+  private readonly routeDefinitions: BunRouteDefinition[] = [];
   private readonly middlewares: BunMiddleware[] = [];
+  private readonly webSocketConnections = new Set<BunWebSocketConnection>();
+  private readonly sseWriters = new Set<SseWriter>();
+  private readonly upgradedRequests = new WeakSet<BunApiServerRequest>();
+  private readonly shutdownHooks: ShutdownHook[] = [];
   private server?: any;
+  private stopping?: Promise<void>;
 
   // Configuration
   private corsSettings: CorsSettings = DEFAULT_CORS_SETTINGS;
+  private requestSizeLimitMb = DEFAULT_REQUEST_SIZE_LIMIT_MB;
+  private compressionOptions?: CompressionOptions;
+  private proxyTrust: ProxyTrust = compileProxyTrust(false);
+  private forwardedHeaders: ForwardedHeaders = "x-forwarded";
   private errorHandler?: (err: Error, req: BunApiServerRequest, res: BunApiServerResponse) => Promise<Response> | Response;
   private tracingMiddleware?: RequestTracingMiddleware;
+  private openApi?: { options: OpenApiOptions; document?: OpenApiDocument };
 
   constructor(
     loggerFactory: LoggerFactory,
@@ -73,15 +109,21 @@ export class BunApiServer {
 
   /**
    * Initializes the API server with controllers, middlewares, error handler, CORS settings, and request size limit.
+   * `trustProxy` is usually `settings.apiServer.trustProxy`, see `setTrustProxy`.
    */
   init = (
     middlewares: BunMiddleware[] = [],
     errorHandler?: (err: Error, req: BunApiServerRequest, res: BunApiServerResponse) => Promise<Response> | Response,
     corsSettings: CorsSettings = DEFAULT_CORS_SETTINGS,
-    _requestSizeLimitMb = 50,
-    logRequests = true
+    requestSizeLimitMb = DEFAULT_REQUEST_SIZE_LIMIT_MB,
+    logRequests = true,
+    trustProxy?: TrustProxySetting
   ) => {
     this.corsSettings = corsSettings;
+    if (trustProxy !== undefined) {
+      this.setTrustProxy(trustProxy);
+    }
+    this.requestSizeLimitMb = requestSizeLimitMb;
     this.errorHandler = errorHandler;
 
     // Initialize tracing middleware with shared trace context store
@@ -92,10 +134,13 @@ export class BunApiServer {
 
     // Add request logging middleware if enabled
     if (logRequests) {
-      this.middlewares.push(async (req: BunApiServerRequest, _res: BunApiServerResponse, next: () => Promise<void>) => {
+      this.middlewares.push(async (req: BunApiServerRequest, res: BunApiServerResponse, next: () => Promise<void | Response>) => {
         const time = new Date().toUTCString();
+        const start = performance.now();
         this.logger.debug(`[${time}] [${req.method.toUpperCase()}] ${req.url}`);
-        return next();
+        await next();
+        const durationMs = Math.round(performance.now() - start);
+        this.logger.debug(`[${req.method.toUpperCase()}] ${req.url} ${res.statusCode} - ${durationMs}ms`);
       });
     }
 
@@ -105,23 +150,129 @@ export class BunApiServer {
 
   /** Starts the API server and listens on the configured port. */
   start = async () => {
+    // Bun rejects bodies over this size before they reach the handler, so it must allow the largest route limit
+    const maxRequestBodySize = Math.max(
+      this.requestSizeLimitMb,
+      ...this.routeDefinitions.map(route => route.options.bodyLimitMb ?? 0)
+    ) * BYTES_PER_MB;
+
+    // Generated before listening, so the first request doesn't pay for it and invalid schemas fail the start
+    if (this.openApi) {
+      this.openApi.document = generateOpenApiDocument(this.routeDefinitions, this.openApi.options);
+    }
+
+    this.stopping = undefined;
     this.server = Bun.serve({
       port: this.port,
+      maxRequestBodySize,
       fetch: this.handleRequest.bind(this),
+      websocket: createWebSocketHandler(
+        (context, fn) => this.tracingMiddleware!.runWithContext(context, fn),
+        this.webSocketConnections
+      ),
     });
 
     this.logger.info(`API server started. listening on http://localhost:${this.port}`);
   };
 
-  /** Stops the API server */
-  stop = async () => {
-    if (this.server) {
-      this.server.stop();
+  /**
+   * Stops the API server gracefully:
+   * 1. flips the readiness, so `isReady()` returns false
+   * 2. waits `preStopDelayMs`, while still serving requests
+   * 3. stops accepting new requests and closes the WebSocket connections and the event streams
+   * 4. waits for the in-flight requests up to `timeoutMs`, then closes the remaining ones
+   * 5. runs the shutdown hooks
+   *
+   * Calling it again while a shutdown is in progress returns the same promise.
+   */
+  stop = (options: ShutdownOptions = {}): Promise<void> => {
+    this.stopping ??= this.shutdown({ ...DEFAULT_SHUTDOWN_OPTIONS, ...options });
+    return this.stopping;
+  };
+
+  /** Returns true while the server is started and not shutting down */
+  isReady = (): boolean => {
+    return !!this.server && !this.stopping;
+  };
+
+  /** Registers a callback run once the server is stopped. Hooks run in registration order */
+  onShutdown = (hook: ShutdownHook) => {
+    this.shutdownHooks.push(hook);
+  };
+
+  /** Stops the server gracefully when the process receives one of the given signals */
+  enableGracefulShutdown = (options: GracefulShutdownOptions = {}) => {
+    const { signals = ["SIGTERM", "SIGINT"], exitProcess = true, ...shutdownOptions } = options;
+
+    for (const signal of signals) {
+      process.once(signal, () => {
+        this.logger.info(`Received ${signal}, shutting down`);
+        this.stop(shutdownOptions)
+          .then(() => exitProcess && process.exit(0))
+          .catch(error => {
+            this.logger.error("Graceful shutdown failed", error as Error);
+            if (exitProcess) process.exit(1);
+          });
+      });
+    }
+  };
+
+  private async shutdown(options: Required<ShutdownOptions>): Promise<void> {
+    const server = this.server;
+    if (server) {
+      if (options.preStopDelayMs > 0) {
+        this.logger.info(`API server not ready, stopping in ${options.preStopDelayMs}ms`);
+        await Bun.sleep(options.preStopDelayMs);
+      }
+
+      this.logger.info(`API server shutting down, ${server.pendingRequests} requests in flight`);
+      for (const connection of this.webSocketConnections) {
+        connection.close(WEBSOCKET_GOING_AWAY, "Server shutting down");
+      }
+      for (const writer of this.sseWriters) {
+        writer.close();
+      }
+
+      const progress = setInterval(() => {
+        this.logger.info(`Waiting for ${server.pendingRequests} in-flight requests`);
+      }, options.progressIntervalMs);
+
+      try {
+        const drained = await waitWithTimeout(server.stop(), options.timeoutMs);
+        if (!drained) {
+          this.logger.warn(`Shutdown timeout expired, closing ${server.pendingRequests} in-flight requests`);
+          await server.stop(true);
+        }
+      } finally {
+        clearInterval(progress);
+      }
+
+      this.server = undefined;
       this.logger.info("API server stopped");
     }
+
+    for (const hook of this.shutdownHooks) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error("Shutdown hook failed", error as Error);
+      }
+    }
+  }
+
+  private handleRequest = async (req: Request): Promise<Response | undefined> => {
+    const response = await this.processRequest(req);
+
+    // Every response gets the CORS headers, including 404 and error responses. Preflights already have them
+    if (response && req.method !== 'OPTIONS' && this.corsSettings.enabled) {
+      return this.withCorsHeaders(response, req);
+    }
+    return response;
   };
 
-  private handleRequest = async (req: Request): Promise<Response> => {
+  private processRequest = async (req: Request): Promise<Response | undefined> => {
+    let apiReq: BunApiServerRequest | undefined;
+
     try {
       // Initialize tracing
       const tracingData = this.tracingMiddleware?.handler()(req);
@@ -129,94 +280,167 @@ export class BunApiServer {
       return await this.tracingMiddleware!.runWithContext(tracingData!.context, async () => {
         // Handle CORS preflight
         if (req.method === 'OPTIONS') {
-          return this.handleCors(req);
-        }
-
-        // Parse request body
-        const body = await this.parseRequestBody(req);
-
-        // Create wrapped request and response
-        const apiReq = await this.createApiRequest(req, body, tracingData!.log);
-        const apiRes = this.createApiResponse();
-
-        // Apply middlewares
-        for (const middleware of this.middlewares) {
-          const result = await middleware(apiReq, apiRes, () => Promise.resolve());
-          if (result instanceof Response) {
-            this.tracingMiddleware?.logRequestCompletion(tracingData!, result);
-            return result;
-          }
+          return createPreflightResponse(this.corsSettings, req);
         }
 
-        // Find and execute route
-        const route = this.findRoute(req.method, new URL(req.url).pathname);
-        if (!route) {
-          const notFoundResponse = new Response('Not Found', { status: 404 });
-          this.tracingMiddleware?.logRequestCompletion(tracingData!, notFoundResponse);
-          return notFoundResponse;
-        }
+        // Resolve the route first, so the body is parsed with the route limits
+        const lookup = this.routes.lookup(req.method, new URL(req.url).pathname);
+        const route = lookup.type === "found" ? lookup.value : undefined;
 
-        // Extract route parameters
-        if (route.pathPattern && route.paramNames) {
-          const match = new URL(req.url).pathname.match(route.pathPattern);
-          if (match) {
-            route.paramNames.forEach((name, index) => {
-              const paramValue = match[index + 1];
-              if (paramValue) {
-                apiReq.params[name] = paramValue;
-              }
+        let parsed: ParsedBody = { body: undefined };
+        try {
+          if (route) {
+            parsed = await parseRequestBody(req, {
+              limitBytes: this.getBodyLimitBytes(route),
+              multipart: route.options.multipart,
             });
           }
+        } catch (error) {
+          if (error instanceof PayloadTooLargeError || error instanceof InvalidRequestBodyError) {
+            return createProblemResponse(error, new URL(req.url).pathname);
+          }
+          throw error;
         }
 
-        // Execute route handler
-        await route.handler(apiReq, apiRes);
-
-        const response = apiRes._getResponse();
-        this.tracingMiddleware?.logRequestCompletion(tracingData!, response);
+        // Create wrapped request and response
+        apiReq = await this.createApiRequest(req, parsed.body, tracingData!.log);
+        apiReq.files = parsed.files;
+        const apiRes = this.createApiResponse(req);
+
+        const uploadedFiles = parsed.files ? Object.values(parsed.files).flat() : [];
+        let response: Response;
+        try {
+          // Run global middlewares around route resolution, then route middlewares around the handler
+          const chain = composeMiddlewares(this.middlewares, (chainReq, chainRes) => this.dispatchRoute(chainReq, chainRes, lookup));
+          const result = await chain(apiReq, apiRes);
+          if (this.upgradedRequests.has(apiReq)) {
+            // Bun sends the upgrade response itself
+            await deleteUploadedFiles(uploadedFiles);
+            return undefined;
+          }
 
-        // Apply CORS headers if enabled
-        if (this.corsSettings.enabled) {
-          this.addCorsHeaders(response);
+          response = result ?? await this.finalizeResponse(req, apiRes, route);
+          this.tracingMiddleware?.logRequestCompletion(tracingData!, response);
+        } catch (error) {
+          await deleteUploadedFiles(uploadedFiles);
+          throw error;
         }
 
-        return response;
+        if (req.method === 'HEAD') {
+          // The body of HEAD responses is never read
+          await deleteUploadedFiles(uploadedFiles);
+          return response;
+        }
+        return deleteUploadedFilesAfter(response, uploadedFiles);
       });
 
     } catch (error) {
-      return this.handleError(error as Error, req);
+      return this.handleError(error as Error, req, apiReq);
     }
   };
 
-  private async parseRequestBody(req: Request): Promise<any> {
-    const contentType = req.headers.get('content-type');
+  /** Resolves the route for the request and runs its middlewares and handler */
+  private dispatchRoute = (
+    apiReq: BunApiServerRequest,
+    apiRes: BunApiServerResponse,
+    lookup: RouteLookupResult<BunRouteDefinition>
+  ): Promise<Response | undefined> | void => {
+    if (lookup.type === "method-not-allowed") {
+      apiRes.status(ApiServerConstants.METHOD_NOT_ALLOWED)
+        .set('allow', lookup.allowedMethods.join(', '))
+        .send('Method Not Allowed');
+      return;
+    }
+    if (lookup.type === "not-found") {
+      apiRes.status(ApiServerConstants.NOT_FOUND).send('Not Found');
+      return;
+    }
+
+    const route = lookup.value;
+    apiReq.params = lookup.params;
+    return composeMiddlewares(route.middlewares, route.handler)(apiReq, apiRes);
+  };
 
-    if (!contentType) {
-      return undefined;
+  /**
+   * Applies the conditional GET and compression handling to buffered responses.
+   * Streams, files and event streams are sent as is.
+   */
+  private async finalizeResponse(req: Request, apiRes: BunApiServerResponse, route?: BunRouteDefinition): Promise<Response> {
+    const response = apiRes._getResponse();
+    const body = apiRes._getBody();
+    if (typeof body !== 'string' && !(body instanceof Uint8Array)) {
+      return response;
     }
 
-    if (contentType.includes('application/json')) {
-      try {
-        return await req.json();
-      } catch {
-        throw new Error('Invalid JSON in request body');
-      }
+    const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+    const headers = response.headers;
+    const options = this.getCompressionOptions(route);
+    const compressible = !!options && isCompressible(headers.get('content-type'), options.contentTypes);
+    if (compressible) {
+      // The representation depends on Accept-Encoding even when this response is not compressed
+      appendVary(headers, 'Accept-Encoding');
     }
 
-    if (contentType.includes('application/x-www-form-urlencoded')) {
-      const formData = await req.formData();
-      const result: any = {};
-      for (const [key, value] of formData.entries()) {
-        result[key] = value;
+    if ((req.method === 'GET' || req.method === 'HEAD') && response.status === ApiServerConstants.SUCCESS) {
+      if (!headers.has('etag') && route?.options.etag !== false && headers.get('content-type')?.startsWith('application/json')) {
+        headers.set('etag', createWeakEtag(bytes));
       }
-      return result;
+      if (isNotModified(req.headers, headers.get('etag'), headers.get('last-modified'))) {
+        return createNotModifiedResponse(headers);
+      }
+    }
+
+    if (!options || !compressible) {
+      return response;
+    }
+
+    const encoding = negotiateEncoding(req.headers.get('accept-encoding'), options.encodings);
+    if (
+      !encoding ||
+      bytes.length < options.thresholdBytes ||
+      headers.has('content-encoding') ||
+      headers.get('cache-control')?.includes('no-transform')
+    ) {
+      return response;
+    }
+
+    headers.set('content-encoding', encoding);
+    headers.delete('content-length');
+    // Compressed and uncompressed representations must not share a strong validator
+    const etag = headers.get('etag');
+    if (etag && !etag.startsWith('W/')) {
+      headers.set('etag', `W/${etag}`);
     }
+    return new Response(await compressBody(bytes, encoding, options.brotliQuality), { status: response.status, headers });
+  }
 
-    if (contentType.includes('text/')) {
-      return await req.text();
+  /** Resolves the compression options of a route, undefined if compression is disabled */
+  private getCompressionOptions(route?: BunRouteDefinition): Required<CompressionOptions> | undefined {
+    const routeOptions = route?.options.compression;
+    if (routeOptions === false || (routeOptions === undefined && !this.compressionOptions)) {
+      return undefined;
     }
+    return {
+      ...DEFAULT_COMPRESSION_OPTIONS,
+      ...this.compressionOptions,
+      ...(typeof routeOptions === 'object' ? routeOptions : {}),
+    };
+  }
 
-    return undefined;
+  private getBodyLimitBytes(route: BunRouteDefinition): number {
+    return (route.options.bodyLimitMb ?? this.requestSizeLimitMb) * BYTES_PER_MB;
+  }
+
+  private withCorsHeaders(response: Response, req: Request): Response {
+    try {
+      applyCorsHeaders(response.headers, this.corsSettings, req.headers.get('origin'));
+      return response;
+    } catch {
+      // Headers of some responses (e.g. proxied fetch responses) are immutable
+      const copy = new Response(response.body, response);
+      applyCorsHeaders(copy.headers, this.corsSettings, req.headers.get('origin'));
+      return copy;
+    }
   }
 
   private async createApiRequest(req: Request, body: any, log: any): Promise<BunApiServerRequest> {
@@ -228,7 +452,10 @@ export class BunApiServer {
       headers[key.toLowerCase()] = value;
     });
 
+    const client = resolveClientAddress(req.headers, url, this.server?.requestIP(req)?.address, this.proxyTrust, this.forwardedHeaders);
+
     return {
+      raw: req,
       body,
       params: {},
       query: Object.fromEntries(url.searchParams.entries()),
@@ -236,14 +463,17 @@ export class BunApiServer {
       method: req.method,
       url: req.url,
       path: url.pathname,
-      ip: headers['x-forwarded-for'] || headers['x-real-ip'] || 'unknown',
+      ip: client.ip,
+      ips: client.ips,
+      protocol: client.protocol,
+      hostname: client.hostname,
       log,
       get: (name: string) => headers[name.toLowerCase()],
       header: (name: string) => headers[name.toLowerCase()],
     };
   }
 
-  private createApiResponse(): BunApiServerResponse {
+  private createApiResponse(req: Request): BunApiServerResponse {
     let responseData: {
       status: number;
       body: any;
@@ -287,9 +517,45 @@ export class BunApiServer {
         }
         return response;
       },
+      stream: (body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>, contentType = 'application/octet-stream') => {
+        responseData.body = body instanceof ReadableStream ? body : toReadableStream(body);
+        responseData.headers['content-type'] ??= contentType;
+        return response;
+      },
+      sendFile: async (path: string, options?: SendFileOptions) => {
+        const file = await createFileResponse(req.headers, path, options);
+        if (!file) {
+          responseData.status = ApiServerConstants.NOT_FOUND;
+          responseData.body = 'Not Found';
+          return response;
+        }
+
+        responseData.status = file.status;
+        responseData.body = file.body;
+        Object.assign(responseData.headers, file.headers);
+        return response;
+      },
+      sse: (options?: SseOptions) => {
+        const { stream, writer } = createSseStream(req.headers.get('last-event-id') ?? undefined, req.signal, options);
+        // Event streams are long lived, so the idle timeout of the server must not close them
+        this.server?.timeout(req, 0);
+        // Open event streams would keep the shutdown waiting until its timeout
+        this.sseWriters.add(writer);
+        writer.onClose(() => this.sseWriters.delete(writer));
+
+        responseData.status = ApiServerConstants.SUCCESS;
+        responseData.body = stream;
+        responseData.headers['content-type'] = 'text/event-stream';
+        responseData.headers['cache-control'] = 'no-cache';
+        responseData.headers['connection'] = 'keep-alive';
+        // Disables response buffering in nginx
+        responseData.headers['x-accel-buffering'] = 'no';
+        return writer;
+      },
       get statusCode() { return responseData.status; },
       set statusCode(code: number) { responseData.status = code; },
       headersSent: false,
+      _getBody: () => responseData.body,
       _getResponse: () => {
         const headers = new Headers(responseData.headers);
         return new Response(responseData.body, {
@@ -302,81 +568,30 @@ export class BunApiServer {
     return response;
   }
 
-  private findRoute(method: string, path: string): Route | undefined {
-    // First try exact match
-    let route = this.routes.find(r => r.method === method && r.path === path);
-    if (route) return route;
-
-    // Then try pattern match
-    return this.routes.find(r => {
-      if (r.method !== method) return false;
-      if (r.pathPattern) {
-        return r.pathPattern.test(path);
-      }
-      return false;
-    });
-  }
-
-  private handleCors(req: Request): Response {
-    const headers = new Headers();
+  private async handleError(error: Error, req: Request, apiReq?: BunApiServerRequest): Promise<Response> {
+    const log = this.loggerFactory.current("HTTP");
+    const path = new URL(req.url).pathname;
 
-    if (this.corsSettings.enabled) {
-      if (Array.isArray(this.corsSettings.origin)) {
-        const origin = req.headers.get('origin');
-        if (origin && this.corsSettings.origin.includes(origin)) {
-          headers.set('Access-Control-Allow-Origin', origin);
-        }
+    // Errors with a known HTTP meaning are serialized as problem details, before the custom error handler
+    const httpError = toHttpError(error);
+    if (httpError) {
+      if (httpError.status >= ApiServerConstants.INTERNAL_SERVER_ERROR) {
+        log.error("Request failed", error, { path, method: req.method, status: httpError.status });
       } else {
-        headers.set('Access-Control-Allow-Origin', this.corsSettings.origin);
-      }
-
-      if (this.corsSettings.methods) {
-        const methods = Array.isArray(this.corsSettings.methods)
-          ? this.corsSettings.methods.join(',')
-          : this.corsSettings.methods;
-        headers.set('Access-Control-Allow-Methods', methods);
-      }
-
-      if (this.corsSettings.allowedHeaders) {
-        headers.set('Access-Control-Allow-Headers', this.corsSettings.allowedHeaders.join(','));
-      }
-    }
-
-    return new Response(null, { status: 204, headers });
-  }
-
-  private addCorsHeaders(response: Response): void {
-    if (!this.corsSettings.enabled) return;
-
-    if (Array.isArray(this.corsSettings.origin)) {
-      // For multiple origins, this would need to be handled in the request context
-      const firstOrigin = this.corsSettings.origin[0];
-      if (firstOrigin) {
-        response.headers.set('Access-Control-Allow-Origin', firstOrigin);
+        log.debug(`Request rejected with ${httpError.status}: ${httpError.message}`, { path, method: req.method });
       }
-    } else {
-      response.headers.set('Access-Control-Allow-Origin', this.corsSettings.origin);
-    }
-
-    if (this.corsSettings.methods) {
-      const methods = Array.isArray(this.corsSettings.methods)
-        ? this.corsSettings.methods.join(',')
-        : this.corsSettings.methods;
-      response.headers.set('Access-Control-Allow-Methods', methods);
+      return createProblemResponse(httpError, path);
     }
-  }
 
-  private async handleError(error: Error, req: Request): Promise<Response> {
-    const log = this.loggerFactory.current("HTTP");
-    log.error("Unhandled error", error, { path: new URL(req.url).pathname, method: req.method });
+    log.error("Unhandled error", error, { path, method: req.method });
 
     if (this.errorHandler) {
       try {
-        const body = await this.parseRequestBody(req);
-        const apiReq = await this.createApiRequest(req, body, log);
-        const apiRes = this.createApiResponse();
+        // The body stream is already consumed, so the parsed request is reused when available
+        const errorReq = apiReq ?? await this.createApiRequest(req, undefined, log);
+        const apiRes = this.createApiResponse(req);
 
-        const result = await this.errorHandler(error, apiReq, apiRes);
+        const result = await this.errorHandler(error, errorReq, apiRes);
         return result instanceof Response ? result : apiRes._getResponse();
       } catch (handlerError) {
         log.error("Error handler failed", handlerError as Error);
@@ -396,60 +611,210 @@ export class BunApiServer {
   }
 
   // Route registration methods
-  private addRoute(method: string, path: string, handler: BunRouteHandler) {
-    this.logger.debug(`Adding route ${method} ${path}`);
-    
-    // Check if path has parameters (like :id)
-    const paramPattern = /:([^/]+)/g;
-    let match;
-    const paramNames: string[] = [];
-    let pathPattern: RegExp | undefined;
-
-    // Extract parameter names
-    while ((match = paramPattern.exec(path)) !== null) {
-      const paramName = match[1];
-      if (paramName) {
-        paramNames.push(paramName);
+  private addRoute(route: BunRouteDefinition) {
+    this.logger.debug(`Adding route ${route.method} ${route.path}`);
+
+    const schema = route.options.schema;
+    const handler = schema ? withSchemaValidation(schema, route.handler) : route.handler;
+    this.routes.insert(route.method, route.path, { ...route, handler });
+    this.routeDefinitions.push(route);
+    // Routes registered after the start are documented with the next request of the document
+    if (this.openApi) {
+      this.openApi.document = undefined;
+    }
+  }
+
+  /** Returns the definitions of all the registered routes */
+  getRoutes = (): BunRouteDefinition[] => {
+    return [...this.routeDefinitions];
+  };
+
+  /** Serves the OpenAPI 3.1 document generated from the registered routes.
+   * The document is generated when the server starts, and again after routes are registered, so routes can be
+   * registered after calling this method.
+   */
+  enableOpenApi = (options: OpenApiOptions) => {
+    this.openApi = { options };
+    this.defineGetRoute(options.path ?? "/openapi.json", (_req, res) => {
+      const openApi = this.openApi!;
+      openApi.document ??= generateOpenApiDocument(this.routeDefinitions, openApi.options);
+      res.json(openApi.document);
+    }, { hidden: true });
+  };
+
+  private defineRoute(method: string, path: string, handler: BunRouteHandler, options: BunRouteOptions) {
+    this.addRoute({ method, path, handler, middlewares: options.middlewares ?? [], options });
+  }
+
+  /** Serves the health reports of the registry:
+   * - `{path}/live` runs the liveness checks
+   * - `{path}/ready` runs the readiness checks, and reports `down` while the server is shutting down
+   *
+   * Both respond 503 when the service is down and 200 otherwise.
+   */
+  enableHealthChecks = (registry: HealthCheckRegistry, options: { path?: string } = {}) => {
+    const path = options.path ?? "/health";
+
+    const sendReport = (res: BunApiServerResponse, report: HealthReport) => {
+      res.status(report.status === "down" ? ApiServerConstants.SERVICE_UNAVAILABLE : ApiServerConstants.SUCCESS)
+        .set('cache-control', 'no-store')
+        .json(report);
+    };
+
+    this.defineGetRoute(`${path}/live`, async (_req, res) => {
+      sendReport(res, await registry.run("liveness"));
+    }, { hidden: true });
+
+    this.defineGetRoute(`${path}/ready`, async (_req, res) => {
+      if (!this.isReady()) {
+        return sendReport(res, { status: "down", checkedAt: new Date().toISOString(), checks: {} });
       }
+      sendReport(res, await registry.run("readiness"));
+    }, { hidden: true });
+  };
+
+  /** Sets the proxies trusted to report the client address, protocol and host, and the headers they write. By default none is trusted */
+  setTrustProxy = (setting: TrustProxySetting, headers: ForwardedHeaders = "x-forwarded") => {
+    this.proxyTrust = compileProxyTrust(setting);
+    this.forwardedHeaders = headers;
+  };
+
+  /** Compresses the buffered responses as negotiated with Accept-Encoding. Routes can override it with the `compression` option */
+  enableCompression = (options: CompressionOptions = {}) => {
+    this.compressionOptions = options;
+  };
+
+  /** Registers the routes defined in `register` under the given prefix, behind the given middlewares.
+   * Groups can be nested, and each nested group adds its prefix and middlewares to the parent ones.
+   */
+  group = (prefix: string, middlewares: BunMiddleware[], register: (group: BunApiServerInterface) => void) => {
+    const group = new BunRouter();
+    register(group);
+    this.mount(prefix, group, middlewares);
+  };
+
+  /** Registers all the routes currently defined on a separately built router under the given prefix */
+  mount = (prefix: string, router: BunRouter, middlewares: BunMiddleware[] = []) => {
+    for (const route of router.resolveRoutes(prefix, middlewares)) {
+      this.addRoute(route);
     }
+  };
 
-    // Create regex pattern if there are parameters
-    if (paramNames.length > 0) {
-      const regexPath = path.replace(/:([^/]+)/g, '([^/]+)');
-      pathPattern = new RegExp(`^${regexPath}$`);
+  /** Invokes the given controller registrars against the server */
+  registerControllers = (controllers: BunControllerRegistrar[]) => {
+    for (const controller of controllers) {
+      controller(this);
     }
+  };
 
-    this.routes.push({
-      method,
-      path,
-      handler,
-      pathPattern,
-      paramNames: paramNames.length > 0 ? paramNames : undefined,
+  /** Registers a WebSocket route. The upgrade request runs through the global and route middlewares,
+   * so they can authenticate it or reject it by responding.
+   */
+  defineWebSocketRoute = <TMessages extends WebSocketMessageMap = WebSocketMessageMap, TState = { [key: string]: any }>(
+    path: string,
+    handlers: WebSocketHandlers<TMessages, TState>,
+    options: WebSocketRouteOptions<TMessages> = {}
+  ) => {
+    const route: WebSocketRouteDefinition = { path, handlers, options };
+    this.defineRoute('GET', path, (req, res) => this.upgradeWebSocket(route, req, res), {
+      middlewares: options.middlewares,
+      hidden: true,
     });
+  };
+
+  /** Sends a `{ type, payload }` message to every WebSocket connection in the room */
+  publish = (room: string, type: string, payload?: any) => {
+    this.server?.publish(room, JSON.stringify({ type, payload }));
+  };
+
+  private upgradeWebSocket(route: WebSocketRouteDefinition, req: BunApiServerRequest, res: BunApiServerResponse) {
+    const traceContext = this.loggerFactory.getTraceContextStore().current()
+      ?? this.loggerFactory.getTraceContextStore().generate();
+    const data: WebSocketConnectionData = { id: randomUUID(), route, request: req, traceContext, log: req.log };
+
+    if (req.raw && this.server?.upgrade(req.raw, { data })) {
+      this.upgradedRequests.add(req);
+      return;
+    }
+
+    res.status(ApiServerConstants.UPGRADE_REQUIRED).send('Upgrade Required');
   }
 
+  /**
+   * Registers a route running the action. The action request is built from the query, the body and the path params,
+   * and the action response is serialized with its status and an `X-Request-Id` header.
+   */
+  defineAction = <TReq, TResponseData>(
+    method: ActionRouteMethod,
+    path: string,
+    action: ActionConstructor<TReq, TResponseData>,
+    request: ActionRequestConstructor<TReq>,
+    options: ActionRouteOptions = {}
+  ) => {
+    this.defineRoute(method, path, createActionHandler(action, request, options), options);
+  };
+
   /** Registers a GET route with the specified path and handler. */
-  defineGetRoute = (path: string, handler: BunRouteHandler) => {
-    this.addRoute('GET', path, handler);
+  defineGetRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.defineRoute('GET', path, handler as BunRouteHandler, options);
   };
 
   /** Registers a POST route with the specified path and handler. */
-  definePostRoute = (path: string, handler: BunRouteHandler) => {
-    this.addRoute('POST', path, handler);
+  definePostRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.defineRoute('POST', path, handler as BunRouteHandler, options);
   };
 
   /** Registers a DELETE route with the specified path and handler. */
-  defineDeleteRoute = (path: string, handler: BunRouteHandler) => {
-    this.addRoute('DELETE', path, handler);
+  defineDeleteRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.defineRoute('DELETE', path, handler as BunRouteHandler, options);
   };
 
   /** Registers a PUT route with the specified path and handler. */
-  definePutRoute = (path: string, handler: BunRouteHandler) => {
-    this.addRoute('PUT', path, handler);
+  definePutRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.defineRoute('PUT', path, handler as BunRouteHandler, options);
   };
 
   /** Registers a PATCH route with the specified path and handler. */
-  definePatchRoute = (path: string, handler: BunRouteHandler) => {
-    this.addRoute('PATCH', path, handler);
+  definePatchRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.defineRoute('PATCH', path, handler as BunRouteHandler, options);
   };
-}
\ No newline at end of file
+}
+
+function toReadableStream(source: AsyncIterable<Uint8Array | string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = source[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Route groups and mounted routers tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { BunApiServer } from "./bun-api-server";
+import { BunRouter } from "./bun-router";
+import type { BunMiddleware } from "./bun-types";
+
+const PORT = 39402;
+const BASE_URL = `http://localhost:${PORT}`;
+
+/** Middleware appending its name to the x-trail request header, returned by the handlers */
+function trail(name: string): BunMiddleware {
+  return async (req, _res, next) => {
+    req.headers["x-trail"] = [req.headers["x-trail"], name].filter(Boolean).join(",");
+    return next();
+  };
+}
+
+describe("BunRouter", () => {
+  it("should prefix the paths and prepend the middlewares of the nested groups", () => {
+    const [outer, inner, route] = [trail("outer"), trail("inner"), trail("route")];
+    const router = new BunRouter();
+    router.group("/admin/", [outer], admin => {
+      admin.group("users", [inner], users => {
+        users.defineDeleteRoute("/:id", () => { }, { middlewares: [route] });
+      });
+    });
+
+    const [definition] = router.resolveRoutes("/v1", []);
+
+    expect(definition).toMatchObject({ method: "DELETE", path: "/v1/admin/users/:id" });
+    expect(definition!.middlewares).toEqual([outer, inner, route]);
+  });
+
+  it("should only mount the routes defined before mount is called", () => {
+    const child = new BunRouter();
+    child.defineGetRoute("/before", () => { });
+    const parent = new BunRouter();
+    parent.mount("/child", child);
+    child.defineGetRoute("/after", () => { });
+
+    expect(parent.resolveRoutes().map(route => route.path)).toEqual(["/child/before"]);
+  });
+});
+
+describe("BunApiServer groups", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, PORT);
+
+  beforeAll(async () => {
+    server.init([trail("global")], undefined, undefined, undefined, false);
+
+    server.group("/v1", [trail("v1")], v1 => {
+      v1.group("/admin", [trail("admin")], admin => {
+        admin.defineGetRoute("/stats", (req, res) => {
+          res.json({ trail: req.headers["x-trail"] });
+        }, { middlewares: [trail("route")] });
+      });
+    });
+
+    const reports = new BunRouter();
+    reports.defineGetRoute("/:id", (req, res) => {
+      res.json({ id: req.params.id, trail: req.headers["x-trail"] });
+    });
+    server.mount("/v1/reports", reports, [trail("reports")]);
+
+    server.defineGetRoute("/health", (req, res) => {
+      res.json({ trail: req.headers["x-trail"] });
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("should run the global, group and route middlewares in order", async () => {
+    const body: any = await (await fetch(`${BASE_URL}/v1/admin/stats`)).json();
+
+    expect(body.trail).toBe("global,v1,admin,route");
+  });
+
+  it("should serve the routes of a mounted router under its prefix", async () => {
+    const body: any = await (await fetch(`${BASE_URL}/v1/reports/42`)).json();
+
+    expect(body).toEqual({ id: "42", trail: "global,reports" });
+  });
+
+  it("should not apply the group middlewares to the routes outside of the group", async () => {
+    const body: any = await (await fetch(`${BASE_URL}/health`)).json();
+
+    expect(body.trail).toBe("global");
+    expect((await fetch(`${BASE_URL}/admin/stats`)).status).toBe(404);
+  });
+});
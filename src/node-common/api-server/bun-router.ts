@@ -0,0 +1,129 @@
+import {
+  createActionHandler,
+  type ActionConstructor,
+  type ActionRequestConstructor,
+  type ActionRouteMethod,
+  type ActionRouteOptions,
+} from "../action";
+import type {
+  BunApiServerInterface,
+  BunControllerRegistrar,
+  BunMiddleware,
+  BunRouteDefinition,
+  BunRouteHandler,
+  BunRouteOptions,
+  BunRouteSchema,
+  BunSchemaRequest,
+} from "./bun-types";
+
+/**
+ * Standalone router used to build a set of routes independently from the server.
+ * Routes are collected with paths relative to the router and registered on the server
+ * through `BunApiServer.mount` (or mounted into another router).
+ *
+ * @example
+ * const adminRouter = new BunRouter();
+ * adminRouter.defineGetRoute("/stats", getStats);
+ * adminRouter.group("/users", [auditMiddleware], (users) => {
+ *   users.defineDeleteRoute("/:id", deleteUser);
+ * });
+ *
+ * api.mount("/v1/admin", adminRouter, [authMiddleware]);
+ */
+export class BunRouter implements BunApiServerInterface {
+  private readonly routes: BunRouteDefinition[] = [];
+
+  /** Returns the routes of this router, with the given prefix and middlewares prepended */
+  resolveRoutes(prefix: string = "", middlewares: BunMiddleware[] = []): BunRouteDefinition[] {
+    return this.routes.map(route => ({
+      ...route,
+      path: joinPaths(prefix, route.path),
+      middlewares: [...middlewares, ...route.middlewares],
+    }));
+  }
+
+  group(prefix: string, middlewares: BunMiddleware[], register: (group: BunApiServerInterface) => void): void {
+    const group = new BunRouter();
+    register(group);
+    this.mount(prefix, group, middlewares);
+  }
+
+  /** Copies the routes currently defined on `router`. Routes added to it afterwards are not mounted */
+  mount(prefix: string, router: BunRouter, middlewares: BunMiddleware[] = []): void {
+    this.routes.push(...router.resolveRoutes(prefix, middlewares));
+  }
+
+  registerControllers(controllers: BunControllerRegistrar[]): void {
+    for (const controller of controllers) {
+      controller(this);
+    }
+  }
+
+  defineAction<TReq, TResponseData>(
+    method: ActionRouteMethod,
+    path: string,
+    action: ActionConstructor<TReq, TResponseData>,
+    request: ActionRequestConstructor<TReq>,
+    options: ActionRouteOptions = {}
+  ): void {
+    this.addRoute(method, path, createActionHandler(action, request, options), options);
+  }
+
+  private addRoute(method: string, path: string, handler: BunRouteHandler, options: BunRouteOptions) {
+    this.routes.push({ method, path, handler, middlewares: options.middlewares ?? [], options });
+  }
+
+  /** Registers a GET route with the specified path and handler. */
+  defineGetRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.addRoute('GET', path, handler as BunRouteHandler, options);
+  };
+
+  /** Registers a POST route with the specified path and handler. */
+  definePostRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.addRoute('POST', path, handler as BunRouteHandler, options);
+  };
+
+  /** Registers a DELETE route with the specified path and handler. */
+  defineDeleteRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.addRoute('DELETE', path, handler as BunRouteHandler, options);
+  };
+
+  /** Registers a PUT route with the specified path and handler. */
+  definePutRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.addRoute('PUT', path, handler as BunRouteHandler, options);
+  };
+
+  /** Registers a PATCH route with the specified path and handler. */
+  definePatchRoute = <TSchema extends BunRouteSchema = {}>(
+    path: string,
+    handler: BunRouteHandler<BunSchemaRequest<TSchema>>,
+    options: BunRouteOptions<TSchema> = {}
+  ) => {
+    this.addRoute('PATCH', path, handler as BunRouteHandler, options);
+  };
+}
+
+/** Joins a prefix and a path making sure there is exactly one slash between segments */
+function joinPaths(prefix: string, path: string): string {
+  const joined = [prefix, path]
+    .map(part => part.replace(/^\/+|\/+$/g, ""))
+    .filter(part => part.length > 0)
+    .join("/");
+  return `/${joined}`;
+}
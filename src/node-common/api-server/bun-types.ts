@@ -1,15 +1,38 @@
+import type { ActionConstructor, ActionRequestConstructor, ActionRouteMethod, ActionRouteOptions } from "../action";
+import type { SchemaBase } from "../schema";
+import type { BunRouter } from "./bun-router";
+import type { CompressionOptions } from "./compression";
+import type { MultipartOptions, UploadedFile } from "./multipart";
+import type { SendFileOptions } from "./send-file";
+import type { SseOptions, SseWriter } from "./server-sent-events";
+
 // BunApiServer specific types
 
-export interface BunApiServerRequest {
+export interface BunApiServerRequest<
+  TBody = any,
+  TQuery = { [key: string]: any },
+  TParams = { [key: string]: string }
+> {
   // Core properties
-  body: any;
-  params: { [key: string]: string };
-  query: { [key: string]: any };
+  body: TBody;
+  params: TParams;
+  query: TQuery;
   headers: { [key: string]: string | string[] | undefined };
   method: string;
   url: string;
   path: string;
+  /** Client address, resolved through the trusted proxies */
   ip: string;
+  /** Forwarded addresses from the client to the closest proxy, empty when no proxy is trusted */
+  ips: string[];
+  /** `http` or `https`, as seen by the client */
+  protocol: string;
+  /** Host name requested by the client, without the port */
+  hostname: string;
+  /** The original Bun request */
+  raw?: Request;
+  /** Files of a multipart/form-data request, by field name */
+  files?: { [fieldName: string]: UploadedFile[] };
 
   // Commonly used methods
   get(name: string): string | undefined;
@@ -38,11 +61,20 @@ export interface BunApiServerResponse {
   redirect(url: string): BunApiServerResponse;
   redirect(status: number, url: string): BunApiServerResponse;
 
+  // Streaming methods
+  /** Streams the given body instead of buffering it */
+  stream(body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>, contentType?: string): BunApiServerResponse;
+  /** Sends a file with range, ETag and Last-Modified support. Responds 404 if the file doesn't exist */
+  sendFile(path: string, options?: SendFileOptions): Promise<BunApiServerResponse>;
+  /** Starts a Server-Sent Events stream and returns its writer */
+  sse(options?: SseOptions): SseWriter;
+
   // Properties
   statusCode: number;
   headersSent: boolean;
 
-  // Internal method to get the Bun Response
+  // Internal methods to get the body and the Bun Response
+  _getBody(): any;
   _getResponse(): Response;
 
   // Add other specific properties here if needed
@@ -51,14 +83,111 @@ export interface BunApiServerResponse {
 
 // Forward declaration to avoid circular dependency
 export interface BunApiServerInterface {
-  defineGetRoute(path: string, handler: BunRouteHandler): void;
-  definePostRoute(path: string, handler: BunRouteHandler): void;
-  defineDeleteRoute(path: string, handler: BunRouteHandler): void;
-  definePutRoute(path: string, handler: BunRouteHandler): void;
-  definePatchRoute(path: string, handler: BunRouteHandler): void;
+  defineGetRoute<TSchema extends BunRouteSchema = {}>(path: string, handler: BunRouteHandler<BunSchemaRequest<TSchema>>, options?: BunRouteOptions<TSchema>): void;
+  definePostRoute<TSchema extends BunRouteSchema = {}>(path: string, handler: BunRouteHandler<BunSchemaRequest<TSchema>>, options?: BunRouteOptions<TSchema>): void;
+  defineDeleteRoute<TSchema extends BunRouteSchema = {}>(path: string, handler: BunRouteHandler<BunSchemaRequest<TSchema>>, options?: BunRouteOptions<TSchema>): void;
+  definePutRoute<TSchema extends BunRouteSchema = {}>(path: string, handler: BunRouteHandler<BunSchemaRequest<TSchema>>, options?: BunRouteOptions<TSchema>): void;
+  definePatchRoute<TSchema extends BunRouteSchema = {}>(path: string, handler: BunRouteHandler<BunSchemaRequest<TSchema>>, options?: BunRouteOptions<TSchema>): void;
+
+  /** Registers a route running the action, with the request built from the query, the body and the path params */
+  defineAction<TReq, TResponseData>(
+    method: ActionRouteMethod,
+    path: string,
+    action: ActionConstructor<TReq, TResponseData>,
+    request: ActionRequestConstructor<TReq>,
+    options?: ActionRouteOptions
+  ): void;
+
+  /** Registers the routes defined in `register` under the given prefix, behind the given middlewares */
+  group(prefix: string, middlewares: BunMiddleware[], register: (group: BunApiServerInterface) => void): void;
+  /** Registers all the routes of a separately built router under the given prefix */
+  mount(prefix: string, router: BunRouter, middlewares?: BunMiddleware[]): void;
+  /** Invokes the given controller registrars against this instance */
+  registerControllers(controllers: BunControllerRegistrar[]): void;
+}
+
+/** Schemas used to validate (and coerce) the parts of a route request */
+export interface BunRouteSchema {
+  body?: SchemaBase<any>;
+  /** Query values are coerced from strings. Repeated keys are collected as arrays */
+  query?: SchemaBase<any>;
+  /** Path params are coerced from strings */
+  params?: SchemaBase<any>;
+  /** Header names are lowercase. Values are validated but not replaced */
+  headers?: SchemaBase<any>;
+}
+
+type InferSchemaOr<TSchema, TKey extends keyof BunRouteSchema, TDefault> =
+  TSchema extends { [K in TKey]: SchemaBase<infer T> } ? T : TDefault;
+
+/** Request type of a route validated with the given schema */
+export type BunSchemaRequest<TSchema extends BunRouteSchema> = BunApiServerRequest<
+  InferSchemaOr<TSchema, "body", any>,
+  InferSchemaOr<TSchema, "query", { [key: string]: any }>,
+  InferSchemaOr<TSchema, "params", { [key: string]: string }>
+>;
+
+/** Per-route options */
+export interface BunRouteOptions<TSchema extends BunRouteSchema = BunRouteSchema> {
+  /** Middlewares applied to this route only, after the global and group ones */
+  middlewares?: BunMiddleware[];
+  /** Request schema. Invalid requests are rejected with 400 before the handler runs */
+  schema?: TSchema;
+  /** Max request body size in MB, overrides the server limit for this route */
+  bodyLimitMb?: number;
+  /** Limits applied to multipart/form-data bodies of this route */
+  multipart?: MultipartOptions;
+  /** Compression of the responses of this route. `true` enables it even if it is not enabled on the server,
+   * `false` disables it, options override the server ones
+   */
+  compression?: boolean | CompressionOptions;
+  /** Set to false to disable the automatic ETag of the JSON responses of this route
+   * @default true
+   */
+  etag?: boolean;
+
+  // OpenAPI metadata
+
+  /** Short summary of the operation */
+  summary?: string;
+  /** Detailed description of the operation */
+  description?: string;
+  /** Tags used to group operations */
+  tags?: string[];
+  /** Unique identifier of the operation, used by client generators */
+  operationId?: string;
+  /** Marks the operation as deprecated */
+  deprecated?: boolean;
+  /** Documents the authentication requirement of the route. It does not enforce it, use a middleware for that.
+   * `true` refers to the default security scheme, an array lists the required security scheme names
+   */
+  requiresAuth?: boolean | string[];
+  /** Response documentation by status code */
+  responses?: { [status: number]: SchemaBase<any> | BunRouteResponseDoc };
+  /** If true, the route is not included in the OpenAPI document */
+  hidden?: boolean;
+}
+
+/** Documentation of a route response */
+export interface BunRouteResponseDoc {
+  description?: string;
+  schema?: SchemaBase<any>;
+  /** @default "application/json" */
+  contentType?: string;
+}
+
+/** A route as registered on a router, with its full path and middleware stack */
+export interface BunRouteDefinition {
+  method: string;
+  path: string;
+  handler: BunRouteHandler;
+  /** Middlewares applied to this route only, after the global ones */
+  middlewares: BunMiddleware[];
+  options: BunRouteOptions;
 }
 
 // Types for Bun controllers and middleware
-export type BunRouteHandler = (req: BunApiServerRequest, res: BunApiServerResponse) => void | Promise<void>;
+export type BunRouteHandler<TReq extends BunApiServerRequest<any, any, any> = BunApiServerRequest> = (req: TReq, res: BunApiServerResponse) => void | Promise<void>;
 export type BunControllerRegistrar = (api: BunApiServerInterface) => void;
-export type BunMiddleware = (req: BunApiServerRequest, res: BunApiServerResponse, next: () => Promise<void>) => Promise<void | Response>;
+/** `next` runs the downstream middlewares and the handler, and resolves with the `Response` they returned, if any */
+export type BunMiddleware = (req: BunApiServerRequest, res: BunApiServerResponse, next: () => Promise<void | Response>) => Promise<void | Response>;
@@ -0,0 +1,58 @@
+/**
+ * Compression negotiation tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { brotliCompressSync, brotliDecompressSync, constants } from "zlib";
+import { compressBody, DEFAULT_COMPRESSION_OPTIONS, isCompressible, negotiateEncoding } from "./compression";
+
+const ENCODINGS = DEFAULT_COMPRESSION_OPTIONS.encodings;
+
+describe("negotiateEncoding", () => {
+  it("should pick the encoding with the highest weight", () => {
+    expect(negotiateEncoding("gzip;q=1.0, br;q=0.5", ENCODINGS)).toBe("gzip");
+    expect(negotiateEncoding("deflate, gzip;q=0.8", ENCODINGS)).toBe("deflate");
+  });
+
+  it("should break ties with the server preference", () => {
+    expect(negotiateEncoding("gzip, deflate, br", ENCODINGS)).toBe("br");
+    expect(negotiateEncoding("*", ["gzip", "deflate"])).toBe("gzip");
+  });
+
+  it("should not compress when no encoding is acceptable", () => {
+    expect(negotiateEncoding(null, ENCODINGS)).toBeUndefined();
+    expect(negotiateEncoding("identity", ENCODINGS)).toBeUndefined();
+    expect(negotiateEncoding("br;q=0, *;q=0", ENCODINGS)).toBeUndefined();
+  });
+});
+
+describe("isCompressible", () => {
+  it("should match content types and wildcard subtypes", () => {
+    const allowed = DEFAULT_COMPRESSION_OPTIONS.contentTypes;
+    expect(isCompressible("application/json; charset=utf-8", allowed)).toBe(true);
+    expect(isCompressible("text/html", allowed)).toBe(true);
+    expect(isCompressible("image/png", allowed)).toBe(false);
+    expect(isCompressible(null, allowed)).toBe(false);
+  });
+});
+
+describe("compressBody", () => {
+  const rows = Array.from({ length: 20000 }, (_, i) => ({ id: i, name: `user-${i}`, email: `user-${i}@example.com`, active: i % 2 === 0 }));
+  const body = new TextEncoder().encode(JSON.stringify(rows));
+
+  it("should compress with brotli quality 4 by default", async () => {
+    const compressed = await compressBody(body, "br");
+    const expected = brotliCompressSync(body, { params: { [constants.BROTLI_PARAM_QUALITY]: 4 } });
+
+    expect(Buffer.from(compressed).equals(expected)).toBe(true);
+    expect(Buffer.from(brotliDecompressSync(compressed)).equals(Buffer.from(body))).toBe(true);
+  });
+
+  it("should apply the given brotli quality", async () => {
+    const fast = await compressBody(body, "br", 1);
+    const expected = brotliCompressSync(body, { params: { [constants.BROTLI_PARAM_QUALITY]: 1 } });
+
+    expect(Buffer.from(fast).equals(expected)).toBe(true);
+    expect(fast.length).toBeGreaterThan((await compressBody(body, "br")).length);
+  });
+});
@@ -0,0 +1,89 @@
+import { promisify } from "util";
+import { brotliCompress, constants, deflate, gzip } from "zlib";
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+const deflateAsync = promisify(deflate);
+
+export type CompressionEncoding = "br" | "gzip" | "deflate";
+
+export interface CompressionOptions {
+  /** Supported encodings, in order of preference when the client accepts several with the same weight
+   * @default ["br", "gzip", "deflate"]
+   */
+  encodings?: CompressionEncoding[];
+  /** Bodies smaller than this are sent uncompressed
+   * @default 1024
+   */
+  thresholdBytes?: number;
+  /** Compressed content types. Entries ending with `/*` match every subtype
+   * @default text/*, JSON, JavaScript, XML and SVG
+   */
+  contentTypes?: string[];
+  /** Brotli quality, from 0 to 11. Higher qualities compress better but are much slower (seconds per MB at 11)
+   * @default 4
+   */
+  brotliQuality?: number;
+}
+
+export const DEFAULT_COMPRESSION_OPTIONS: Required<CompressionOptions> = {
+  encodings: ["br", "gzip", "deflate"],
+  thresholdBytes: 1024,
+  contentTypes: [
+    "text/*",
+    "application/json",
+    "application/problem+json",
+    "application/javascript",
+    "application/xml",
+    "image/svg+xml",
+  ],
+  brotliQuality: 4,
+};
+
+/** Returns true if the content type is in the allowlist */
+export function isCompressible(contentType: string | null, allowed: string[]): boolean {
+  if (!contentType) return false;
+
+  const mediaType = contentType.split(';')[0]!.trim().toLowerCase();
+  return allowed.some(entry => entry.endsWith('/*')
+    ? mediaType.startsWith(entry.slice(0, -1))
+    : mediaType === entry);
+}
+
+/** Picks the encoding with the highest weight in `Accept-Encoding`, or undefined if none is acceptable */
+export function negotiateEncoding(acceptEncoding: string | null, supported: CompressionEncoding[]): CompressionEncoding | undefined {
+  if (!acceptEncoding) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const entry of acceptEncoding.split(',')) {
+    const [name, ...params] = entry.trim().toLowerCase().split(';');
+    if (!name) continue;
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    weights.set(name, q ? Number(q.slice(2)) || 0 : 1);
+  }
+
+  let best: { encoding: CompressionEncoding; weight: number } | undefined;
+  for (const encoding of supported) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > 0 && (!best || weight > best.weight)) {
+      best = { encoding, weight };
+    }
+  }
+  return best?.encoding;
+}
+
+/** Compresses the body with the given encoding, off the event loop */
+export async function compressBody(
+  body: Uint8Array,
+  encoding: CompressionEncoding,
+  brotliQuality = DEFAULT_COMPRESSION_OPTIONS.brotliQuality
+): Promise<Uint8Array> {
+  switch (encoding) {
+    case "br":
+      return brotliCompressAsync(body, { params: { [constants.BROTLI_PARAM_QUALITY]: brotliQuality } });
+    case "gzip":
+      return gzipAsync(body);
+    case "deflate":
+      return deflateAsync(body);
+  }
+}
@@ -0,0 +1,40 @@
+/** Computes a weak ETag from the content of a body */
+export function createWeakEtag(body: Uint8Array): string {
+  return `W/"${body.length.toString(16)}-${Bun.hash(body).toString(16)}"`;
+}
+
+/**
+ * Returns true if the cached representation of the client is still valid.
+ * `If-None-Match` takes precedence over `If-Modified-Since`, as required by RFC 9110.
+ */
+export function isNotModified(requestHeaders: Headers, etag: string | null, lastModified: string | null): boolean {
+  const ifNoneMatch = requestHeaders.get('if-none-match');
+  if (ifNoneMatch) {
+    if (!etag) return false;
+    // Weak comparison, as required for If-None-Match
+    const weak = (value: string) => value.trim().replace(/^W\//, '');
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(value => weak(value) === weak(etag));
+  }
+
+  const ifModifiedSince = requestHeaders.get('if-modified-since');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(lastModified);
+    return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+  }
+
+  return false;
+}
+
+/** Headers kept on 304 responses */
+const NOT_MODIFIED_HEADERS = ['cache-control', 'content-location', 'date', 'etag', 'expires', 'last-modified', 'vary'];
+
+/** Builds the 304 response of a representation */
+export function createNotModifiedResponse(headers: Headers): Response {
+  const notModifiedHeaders = new Headers();
+  for (const name of NOT_MODIFIED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) notModifiedHeaders.set(name, value);
+  }
+  return new Response(null, { status: 304, headers: notModifiedHeaders });
+}
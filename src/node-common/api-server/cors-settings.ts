@@ -1,8 +1,20 @@
+/** Allowed origins: `"*"`, an exact origin, a pattern, a list of them, or a predicate */
+export type CorsOrigin = string | RegExp | (string | RegExp)[] | ((origin: string) => boolean);
+
 export interface CorsSettings {
   enabled: boolean;
-  origin: string | string[];
+  origin: CorsOrigin;
   methods?: string | string[];
+  /** Headers allowed in requests. When omitted, the headers requested by the preflight are allowed */
   allowedHeaders?: string[];
+  /** Response headers readable by the browser, besides the CORS-safelisted ones */
+  exposedHeaders?: string[];
+  /** If true, requests can include cookies and authorization headers.
+   * With `origin: "*"` the request origin is reflected, as browsers reject `*` for credentialed requests
+   */
+  credentials?: boolean;
+  /** Time in seconds the preflight result can be cached by the browser */
+  maxAge?: number;
 }
 
 export const DEFAULT_CORS_SETTINGS: CorsSettings = {
@@ -10,4 +22,4 @@ export const DEFAULT_CORS_SETTINGS: CorsSettings = {
   origin: "*",
   methods: "GET,HEAD,PUT,PATCH,POST,DELETE,OPTIONS",
   allowedHeaders: ["Content-Type", "Authorization"],
-};
\ No newline at end of file
+};
@@ -0,0 +1,60 @@
+/**
+ * CORS tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { applyCorsHeaders, createPreflightResponse } from "./cors";
+import type { CorsSettings } from "./cors-settings";
+
+describe("cors", () => {
+  const settings: CorsSettings = {
+    enabled: true,
+    origin: ["https://app.example.com", /^https:\/\/[a-z0-9-]+\.preview\.example\.com$/],
+    credentials: true,
+    exposedHeaders: ["X-Request-Id"],
+    maxAge: 600,
+  };
+
+  it("should reflect every allowed origin on actual responses", () => {
+    for (const origin of ["https://app.example.com", "https://pr42.preview.example.com"]) {
+      const headers = new Headers();
+      applyCorsHeaders(headers, settings, origin);
+
+      expect(headers.get("Access-Control-Allow-Origin")).toBe(origin);
+      expect(headers.get("Access-Control-Allow-Credentials")).toBe("true");
+      expect(headers.get("Access-Control-Expose-Headers")).toBe("X-Request-Id");
+      expect(headers.get("Vary")).toBe("Origin");
+    }
+  });
+
+  it("should not allow unknown origins", () => {
+    const headers = new Headers({ Vary: "Accept-Encoding" });
+    applyCorsHeaders(headers, settings, "https://evil.example.org");
+
+    expect(headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(headers.get("Vary")).toBe("Accept-Encoding, Origin");
+  });
+
+  it("should answer preflights with the requested headers and max age", () => {
+    const response = createPreflightResponse({ ...settings, origin: origin => origin.endsWith(".example.com") }, new Request("http://localhost/orders", {
+      method: "OPTIONS",
+      headers: { origin: "https://app.example.com", "access-control-request-headers": "content-type,x-tenant" },
+    }));
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("https://app.example.com");
+    expect(response.headers.get("Access-Control-Allow-Headers")).toBe("content-type,x-tenant");
+    expect(response.headers.get("Access-Control-Max-Age")).toBe("600");
+  });
+
+  it("should use the wildcard origin only without credentials", () => {
+    const headers = new Headers();
+    applyCorsHeaders(headers, { enabled: true, origin: "*" }, "https://app.example.com");
+    expect(headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(headers.get("Vary")).toBeNull();
+
+    const credentialed = new Headers();
+    applyCorsHeaders(credentialed, { enabled: true, origin: "*", credentials: true }, "https://app.example.com");
+    expect(credentialed.get("Access-Control-Allow-Origin")).toBe("https://app.example.com");
+  });
+});
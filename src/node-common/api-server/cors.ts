@@ -0,0 +1,93 @@
+import type { CorsOrigin, CorsSettings } from "./cors-settings";
+import { appendVary } from "./http-headers";
+
+/**
+ * Returns the `Access-Control-Allow-Origin` value for the request origin,
+ * or undefined if the origin is not allowed.
+ */
+export function resolveAllowedOrigin(settings: CorsSettings, requestOrigin: string | null): string | undefined {
+  if (settings.origin === "*") {
+    if (!settings.credentials) return "*";
+    return requestOrigin ?? undefined;
+  }
+
+  if (!requestOrigin) {
+    return undefined;
+  }
+
+  return isOriginAllowed(settings.origin, requestOrigin) ? requestOrigin : undefined;
+}
+
+/** Adds the CORS headers of an actual (non-preflight) response */
+export function applyCorsHeaders(headers: Headers, settings: CorsSettings, requestOrigin: string | null): void {
+  if (!settings.enabled) return;
+
+  if (varyByOrigin(settings)) {
+    appendVary(headers, "Origin");
+  }
+
+  const allowedOrigin = resolveAllowedOrigin(settings, requestOrigin);
+  if (!allowedOrigin) return;
+
+  headers.set("Access-Control-Allow-Origin", allowedOrigin);
+  if (settings.credentials) {
+    headers.set("Access-Control-Allow-Credentials", "true");
+  }
+  if (settings.exposedHeaders?.length) {
+    headers.set("Access-Control-Expose-Headers", settings.exposedHeaders.join(","));
+  }
+}
+
+/** Builds the response of a preflight request */
+export function createPreflightResponse(settings: CorsSettings, req: Request): Response {
+  const headers = new Headers();
+  if (!settings.enabled) {
+    return new Response(null, { status: 204, headers });
+  }
+
+  if (varyByOrigin(settings)) {
+    appendVary(headers, "Origin");
+  }
+
+  const allowedOrigin = resolveAllowedOrigin(settings, req.headers.get("origin"));
+  if (allowedOrigin) {
+    headers.set("Access-Control-Allow-Origin", allowedOrigin);
+
+    if (settings.credentials) {
+      headers.set("Access-Control-Allow-Credentials", "true");
+    }
+
+    if (settings.methods) {
+      const methods = Array.isArray(settings.methods) ? settings.methods.join(",") : settings.methods;
+      headers.set("Access-Control-Allow-Methods", methods);
+    }
+
+    if (settings.allowedHeaders) {
+      headers.set("Access-Control-Allow-Headers", settings.allowedHeaders.join(","));
+    } else {
+      const requestedHeaders = req.headers.get("access-control-request-headers");
+      appendVary(headers, "Access-Control-Request-Headers");
+      if (requestedHeaders) {
+        headers.set("Access-Control-Allow-Headers", requestedHeaders);
+      }
+    }
+
+    if (settings.maxAge !== undefined) {
+      headers.set("Access-Control-Max-Age", String(settings.maxAge));
+    }
+  }
+
+  return new Response(null, { status: 204, headers });
+}
+
+function isOriginAllowed(allowed: CorsOrigin, origin: string): boolean {
+  if (typeof allowed === "function") return allowed(origin);
+  if (Array.isArray(allowed)) return allowed.some(entry => isOriginAllowed(entry, origin));
+  if (allowed instanceof RegExp) return allowed.test(origin);
+  return allowed === "*" || allowed === origin;
+}
+
+/** The allowed origin depends on the request unless every origin gets `*` */
+function varyByOrigin(settings: CorsSettings): boolean {
+  return settings.origin !== "*" || !!settings.credentials;
+}
@@ -0,0 +1,83 @@
+/**
+ * HTTP error mapping tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { DomainValidationError } from "../domain";
+import { LoggerFactory } from "../logger";
+import { schema } from "../schema";
+import { BunApiServer } from "./bun-api-server";
+import { ConflictError, createProblemResponse, PROBLEM_JSON_CONTENT_TYPE, toHttpError, ValidationHttpError } from "./http-errors";
+
+describe("http errors", () => {
+  it("should serialize HTTP errors as problem details", async () => {
+    const error = new ConflictError("Order already shipped", { code: "ORDER_SHIPPED", details: { orderId: "42" } });
+    const response = createProblemResponse(error, "/orders/42");
+
+    expect(response.status).toBe(409);
+    expect(response.headers.get("content-type")).toBe(PROBLEM_JSON_CONTENT_TYPE);
+    expect(await response.json()).toEqual({
+      type: "about:blank",
+      title: "Conflict",
+      status: 409,
+      detail: "Order already shipped",
+      instance: "/orders/42",
+      code: "ORDER_SHIPPED",
+      details: { orderId: "42" },
+    });
+  });
+
+  it("should map domain validation errors to 422", () => {
+    const errors = [{ code: "NAME_REQUIRED", message: "Name is required" }];
+    const httpError = toHttpError(new DomainValidationError("Validation failed for user (create)", errors));
+
+    expect(httpError).toBeInstanceOf(ValidationHttpError);
+    expect(httpError!.status).toBe(422);
+    expect(httpError!.toProblemDetails().errors).toEqual(errors);
+  });
+
+  it("should leave unknown errors to the error handler", () => {
+    expect(toHttpError(new Error("boom"))).toBeUndefined();
+  });
+});
+
+describe("BunApiServer request errors", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+  const server = new BunApiServer(loggerFactory, 39422);
+  const post = (path: string, body: string) =>
+    fetch(`http://localhost:39422${path}`, { method: "POST", headers: { "content-type": "application/json" }, body });
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    server.definePostRoute("/orders", (_req, res) => {
+      res.status(201).json({});
+    }, { schema: { body: schema.object({ quantity: schema.int({ min: 1 }) }) }, bodyLimitMb: 0.001 });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+  });
+
+  it("should answer the malformed and oversized bodies with problem details", async () => {
+    const malformed = await post("/orders", "{");
+    expect(malformed.status).toBe(400);
+    expect(malformed.headers.get("content-type")).toBe(PROBLEM_JSON_CONTENT_TYPE);
+    expect(await malformed.json()).toMatchObject({ title: "Bad Request", status: 400, detail: "Invalid JSON in request body" });
+
+    const oversized = await post("/orders", JSON.stringify({ quantity: 1, note: "x".repeat(2000) }));
+    expect(oversized.status).toBe(413);
+    expect(oversized.headers.get("content-type")).toBe(PROBLEM_JSON_CONTENT_TYPE);
+    expect(await oversized.json()).toMatchObject({ status: 413, instance: "/orders" });
+  });
+
+  it("should answer the requests failing the route schema with validation problem details", async () => {
+    const response = await post("/orders", JSON.stringify({ quantity: 0 }));
+    const body: any = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("content-type")).toBe(PROBLEM_JSON_CONTENT_TYPE);
+    expect(body).toMatchObject({ title: "Bad Request", status: 400, detail: "Request validation failed", instance: "/orders" });
+    expect(body.errors).toEqual([expect.objectContaining({ field: "body.quantity" })]);
+  });
+});
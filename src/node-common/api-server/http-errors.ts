@@ -0,0 +1,152 @@
+import { STATUS_CODES } from "http";
+import { DomainValidationError } from "../domain";
+import { ApiServerConstants } from "./api-server-constants";
+
+export const PROBLEM_JSON_CONTENT_TYPE = "application/problem+json";
+
+/** RFC 7807 problem details body */
+export interface ProblemDetails {
+  /** URI identifying the problem type, `about:blank` when the status is enough */
+  type: string;
+  /** Short summary of the problem type */
+  title: string;
+  status: number;
+  /** Explanation specific to this occurrence */
+  detail?: string;
+  /** Path of the request */
+  instance?: string;
+  /** Application specific error code */
+  code?: string;
+  /** Additional, problem specific data */
+  details?: any;
+  /** Field level errors of validation problems */
+  errors?: HttpValidationIssue[];
+}
+
+/** A single validation failure */
+export interface HttpValidationIssue {
+  /** Error code or field name */
+  code: string;
+  message: string;
+  context?: Record<string, any>;
+}
+
+export interface HttpErrorOptions {
+  /** Application specific error code, e.g. `ORDER_ALREADY_SHIPPED` */
+  code?: string;
+  /** Additional data serialized in the `details` member */
+  details?: any;
+  /** URI identifying the problem type
+   * @default "about:blank"
+   */
+  type?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of the errors mapped to an HTTP response.
+ * Thrown from a handler or middleware, it is serialized as an `application/problem+json` response with its status.
+ */
+export class HttpError extends Error {
+  readonly code?: string;
+  readonly details?: any;
+  readonly type: string;
+
+  constructor(readonly status: number, message: string = STATUS_CODES[status] ?? "Error", options: HttpErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "HttpError";
+    this.code = options.code;
+    this.details = options.details;
+    this.type = options.type ?? "about:blank";
+  }
+
+  /** Builds the problem details of the error */
+  toProblemDetails(instance?: string): ProblemDetails {
+    return {
+      type: this.type,
+      title: STATUS_CODES[this.status] ?? "Error",
+      status: this.status,
+      detail: this.message,
+      ...(instance !== undefined && { instance }),
+      ...(this.code !== undefined && { code: this.code }),
+      ...(this.details !== undefined && { details: this.details }),
+    };
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.BAD_REQUEST, message, options);
+    this.name = "BadRequestError";
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.UNAUTHORIZED, message, options);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.FORBIDDEN, message, options);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.NOT_FOUND, message, options);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.CONFLICT, message, options);
+    this.name = "ConflictError";
+  }
+}
+
+/** Validation failure with field level errors, 422 by default */
+export class ValidationHttpError extends HttpError {
+  constructor(
+    readonly errors: HttpValidationIssue[],
+    message = "Validation failed",
+    options: HttpErrorOptions & { status?: number } = {}
+  ) {
+    super(options.status ?? ApiServerConstants.UNPROCESSABLE_ENTITY, message, options);
+    this.name = "ValidationHttpError";
+  }
+
+  override toProblemDetails(instance?: string): ProblemDetails {
+    return { ...super.toProblemDetails(instance), errors: this.errors };
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(ApiServerConstants.TOO_MANY_REQUESTS, message, options);
+    this.name = "TooManyRequestsError";
+  }
+}
+
+/** Maps the errors with a known HTTP meaning (`HttpError`, `DomainValidationError`), undefined for the others */
+export function toHttpError(error: unknown): HttpError | undefined {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  if (error instanceof DomainValidationError) {
+    return new ValidationHttpError(error.errors, error.message, { cause: error });
+  }
+  return undefined;
+}
+
+/** Serializes the error as an `application/problem+json` response */
+export function createProblemResponse(error: HttpError, instance?: string): Response {
+  return new Response(JSON.stringify(error.toProblemDetails(instance)), {
+    status: error.status,
+    headers: { "content-type": PROBLEM_JSON_CONTENT_TYPE },
+  });
+}
@@ -0,0 +1,13 @@
+/** Adds a value to the Vary header, unless already present */
+export function appendVary(headers: Headers, value: string): void {
+  const current = headers.get("Vary");
+  if (!current) {
+    headers.set("Vary", value);
+    return;
+  }
+
+  const values = current.split(",").map(entry => entry.trim().toLowerCase());
+  if (!values.includes(value.toLowerCase()) && !values.includes("*")) {
+    headers.set("Vary", `${current}, ${value}`);
+  }
+}
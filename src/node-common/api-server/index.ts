@@ -1,5 +1,22 @@
 export * from "./api-server-constants";
+export * from "./body-errors";
+export * from "./body-parser";
 export * from "./bun-api-server";
+export * from "./bun-router";
 export * from "./bun-types";
+export * from "./compression";
+export * from "./conditional-get";
+export * from "./cors";
 export * from "./cors-settings";
-
+export * from "./http-errors";
+export * from "./http-headers";
+export * from "./middleware-chain";
+export * from "./multipart";
+export * from "./openapi";
+export * from "./proxy-trust";
+export * from "./request-validation";
+export * from "./route-tree";
+export * from "./send-file";
+export * from "./server-sent-events";
+export * from "./shutdown";
+export * from "./websocket";
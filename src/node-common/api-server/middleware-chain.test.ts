@@ -0,0 +1,93 @@
+/**
+ * Middleware chain tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { BunApiServerRequest, BunApiServerResponse, BunMiddleware } from "./bun-types";
+import { composeMiddlewares } from "./middleware-chain";
+
+const req = {} as BunApiServerRequest;
+const res = {} as BunApiServerResponse;
+
+/** Middleware recording when it enters and leaves the chain */
+function recording(name: string, calls: string[]): BunMiddleware {
+  return async (_req, _res, next) => {
+    calls.push(`${name} in`);
+    await next();
+    calls.push(`${name} out`);
+  };
+}
+
+describe("composeMiddlewares", () => {
+  it("should run the middlewares around the handler, onion style", async () => {
+    const calls: string[] = [];
+    const chain = composeMiddlewares([recording("a", calls), recording("b", calls)], () => {
+      calls.push("handler");
+    });
+
+    expect(await chain(req, res)).toBeUndefined();
+    expect(calls).toEqual(["a in", "b in", "handler", "b out", "a out"]);
+  });
+
+  it("should short-circuit the chain when a middleware doesn't call next", async () => {
+    const calls: string[] = [];
+    const deny: BunMiddleware = async () => new Response("denied", { status: 403 });
+    const chain = composeMiddlewares([recording("a", calls), deny, recording("b", calls)], () => {
+      calls.push("handler");
+    });
+
+    const response = await chain(req, res);
+
+    expect(response?.status).toBe(403);
+    expect(calls).toEqual(["a in", "a out"]);
+  });
+
+  it("should resolve next with the downstream response and keep the outermost one", async () => {
+    let downstreamStatus: number | undefined;
+    const outer: BunMiddleware = async (_req, _res, next) => {
+      const downstream = await next();
+      downstreamStatus = downstream instanceof Response ? downstream.status : undefined;
+      return new Response("outer", { status: 202 });
+    };
+    const chain = composeMiddlewares([outer], () => new Response("handler", { status: 201 }));
+
+    const response = await chain(req, res);
+
+    expect(downstreamStatus).toBe(201);
+    expect(await response?.text()).toBe("outer");
+  });
+
+  it("should pass the downstream response up through the middlewares returning nothing", async () => {
+    const chain = composeMiddlewares([recording("a", [])], () => new Response("handler"));
+
+    expect(await (await chain(req, res))?.text()).toBe("handler");
+  });
+
+  it("should let a middleware catch the downstream errors", async () => {
+    let caught: unknown;
+    const catching: BunMiddleware = async (_req, _res, next) => {
+      try {
+        await next();
+      } catch (error) {
+        caught = error;
+      }
+    };
+    const chain = composeMiddlewares([catching], () => {
+      throw new Error("boom");
+    });
+
+    await chain(req, res);
+
+    expect((caught as Error).message).toBe("boom");
+  });
+
+  it("should reject a middleware calling next twice", async () => {
+    const twice: BunMiddleware = async (_req, _res, next) => {
+      await next();
+      await next();
+    };
+    const chain = composeMiddlewares([twice], () => { });
+
+    await expect(chain(req, res)).rejects.toThrow("next() called multiple times");
+  });
+});
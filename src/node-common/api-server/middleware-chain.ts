@@ -0,0 +1,40 @@
+import type { BunApiServerRequest, BunApiServerResponse, BunMiddleware } from "./bun-types";
+
+type ChainHandler = (req: BunApiServerRequest, res: BunApiServerResponse) => void | Response | Promise<void | Response>;
+
+/**
+ * Composes middlewares around a handler, onion style.
+ * Calling `await next()` inside a middleware runs the downstream middlewares and the handler,
+ * so code placed after it can post-process the response or catch downstream errors.
+ * Not calling `next` short-circuits the chain.
+ *
+ * A middleware (or the handler) can return a `Response` to replace the one built from `res`;
+ * when several do, the outermost one wins. `next` resolves with the `Response` returned downstream, if any.
+ */
+export function composeMiddlewares(middlewares: BunMiddleware[], handler: ChainHandler) {
+  return async (req: BunApiServerRequest, res: BunApiServerResponse): Promise<Response | undefined> => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<Response | undefined> => {
+      if (index <= lastIndex) {
+        throw new Error("next() called multiple times");
+      }
+      lastIndex = index;
+
+      const middleware = middlewares[index];
+      if (!middleware) {
+        const output = await handler(req, res);
+        return output instanceof Response ? output : undefined;
+      }
+
+      let downstream: Response | undefined;
+      const output = await middleware(req, res, async () => {
+        downstream = await dispatch(index + 1);
+        return downstream;
+      });
+      return output instanceof Response ? output : downstream;
+    };
+
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,174 @@
+/**
+ * Multipart parser tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { existsSync } from "fs";
+import { LoggerFactory } from "../logger";
+import { PayloadTooLargeError } from "./body-errors";
+import { BunApiServer } from "./bun-api-server";
+import { deleteUploadedFiles, deleteUploadedFilesAfter, getMultipartBoundary, parseMultipart } from "./multipart";
+
+const BOUNDARY = "----test-boundary";
+
+function multipartBody(parts: { name: string; value: string; fileName?: string; type?: string }[]): string {
+  const body = parts.map(part => {
+    const disposition = `form-data; name="${part.name}"${part.fileName !== undefined ? `; filename="${part.fileName}"` : ""}`;
+    const type = part.type ? `\r\nContent-Type: ${part.type}` : "";
+    return `--${BOUNDARY}\r\nContent-Disposition: ${disposition}${type}\r\n\r\n${part.value}\r\n`;
+  });
+  return `${body.join("")}--${BOUNDARY}--\r\n`;
+}
+
+/** Streams the body in chunks of the given size, to exercise boundaries split across chunks */
+function toStream(body: string, chunkSize: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(body);
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+describe("parseMultipart", () => {
+  it("should extract the boundary from the content type", () => {
+    expect(getMultipartBoundary(`multipart/form-data; boundary=${BOUNDARY}`)).toBe(BOUNDARY);
+    expect(getMultipartBoundary(`multipart/form-data; boundary="${BOUNDARY}"`)).toBe(BOUNDARY);
+  });
+
+  it("should parse fields and files from chunked bodies", async () => {
+    const body = multipartBody([
+      { name: "title", value: "Report" },
+      { name: "tag", value: "a" },
+      { name: "tag", value: "b" },
+      { name: "document", value: "line 1\r\nline 2", fileName: "report.txt", type: "text/plain" },
+    ]);
+
+    for (const chunkSize of [1, 7, body.length]) {
+      const result = await parseMultipart(toStream(body, chunkSize), BOUNDARY, 1024 * 1024);
+
+      expect(result.fields).toEqual({ title: "Report", tag: ["a", "b"] });
+      const file = result.files["document"]![0]!;
+      expect(file.name).toBe("report.txt");
+      expect(file.type).toBe("text/plain");
+      expect(file.size).toBe(14);
+      expect(await file.text()).toBe("line 1\r\nline 2");
+    }
+  });
+
+  it("should write files over the memory threshold to temporary files", async () => {
+    const content = "x".repeat(1000);
+    const body = multipartBody([{ name: "file", value: content, fileName: "big.bin" }]);
+
+    const result = await parseMultipart(toStream(body, 64), BOUNDARY, 1024 * 1024, { inMemoryThresholdBytes: 100 });
+    const file = result.files["file"]![0]!;
+
+    expect(file.type).toBe("application/octet-stream");
+    expect(file.path).toBeDefined();
+    expect(await file.text()).toBe(content);
+
+    await deleteUploadedFiles([file]);
+    expect(existsSync(file.path!)).toBe(false);
+  });
+
+  it("should reject files and bodies over the limits", async () => {
+    const body = multipartBody([{ name: "file", value: "x".repeat(500), fileName: "a.bin" }]);
+
+    await expect(parseMultipart(toStream(body, 64), BOUNDARY, 1024 * 1024, { maxFileSizeBytes: 100 }))
+      .rejects.toBeInstanceOf(PayloadTooLargeError);
+    await expect(parseMultipart(toStream(body, 64), BOUNDARY, 200)).rejects.toBeInstanceOf(PayloadTooLargeError);
+  });
+
+  it("should reject the bodies with more fields than maxFields", async () => {
+    const body = multipartBody([{ name: "a", value: "1" }, { name: "b", value: "2" }, { name: "c", value: "3" }]);
+
+    await expect(parseMultipart(toStream(body, 64), BOUNDARY, 1024 * 1024, { maxFields: 2 }))
+      .rejects.toThrow("Too many fields, the limit is 2");
+  });
+
+  it("should keep the fields and files named like Object.prototype members", async () => {
+    const body = multipartBody([
+      { name: "constructor", value: "a" },
+      { name: "toString", value: "b" },
+      { name: "__proto__", value: "content", fileName: "proto.txt" },
+    ]);
+
+    const result = await parseMultipart(toStream(body, 64), BOUNDARY, 1024 * 1024);
+
+    expect(result.fields["constructor"]).toBe("a");
+    expect(result.fields["toString"]).toBe("b");
+    expect(result.files["__proto__"]!.map(file => file.name)).toEqual(["proto.txt"]);
+  });
+});
+
+describe("deleteUploadedFilesAfter", () => {
+  async function upload(content: string) {
+    const body = multipartBody([{ name: "file", value: content, fileName: "big.bin" }]);
+    const result = await parseMultipart(toStream(body, 64), BOUNDARY, 1024 * 1024, { inMemoryThresholdBytes: 10 });
+    return result.files["file"]![0]!;
+  }
+
+  it("should delete the temporary files once the body has been read", async () => {
+    const file = await upload("x".repeat(100));
+    const response = await deleteUploadedFilesAfter(new Response(Bun.file(file.path!)), [file]);
+
+    expect(existsSync(file.path!)).toBe(true);
+    expect(await response.text()).toBe("x".repeat(100));
+    expect(existsSync(file.path!)).toBe(false);
+  });
+
+  it("should delete the temporary files when the body is cancelled", async () => {
+    const file = await upload("x".repeat(100));
+    const response = await deleteUploadedFilesAfter(new Response(Bun.file(file.path!)), [file]);
+
+    await response.body!.cancel();
+    expect(existsSync(file.path!)).toBe(false);
+  });
+
+  it("should delete the temporary files at once for responses without a body", async () => {
+    const file = await upload("x".repeat(100));
+    await deleteUploadedFilesAfter(new Response(null, { status: 204 }), [file]);
+
+    expect(existsSync(file.path!)).toBe(false);
+  });
+});
+
+describe("BunApiServer uploads", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, 39406);
+  let uploadedPath: string | undefined;
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    server.definePostRoute("/echo", async (req, res) => {
+      const file = req.files!["file"]![0]!;
+      uploadedPath = file.path;
+      await res.sendFile(file.path!);
+    }, { multipart: { inMemoryThresholdBytes: 10 } });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+  });
+
+  it("should keep the temporary files until the streamed response has been sent", async () => {
+    const content = "x".repeat(256 * 1024);
+    const response = await fetch("http://localhost:39406/echo", {
+      method: "POST",
+      headers: { "content-type": `multipart/form-data; boundary=${BOUNDARY}` },
+      body: multipartBody([{ name: "file", value: content, fileName: "big.bin" }]),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(content);
+    await Bun.sleep(10);
+    expect(existsSync(uploadedPath!)).toBe(false);
+  });
+});
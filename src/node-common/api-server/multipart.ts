@@ -0,0 +1,425 @@
+import { randomUUID } from "crypto";
+import { open, unlink, type FileHandle } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { InvalidRequestBodyError, PayloadTooLargeError } from "./body-errors";
+
+/** A file received through a multipart/form-data request */
+export interface UploadedFile {
+  /** Name of the form field */
+  fieldName: string;
+  /** Original file name, as sent by the client */
+  name: string;
+  /** Content type, as sent by the client */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /** Path of the temporary file, set when the content was too big to be kept in memory.
+   * Temporary files are deleted once the response has been sent.
+   */
+  path?: string;
+  bytes(): Promise<Uint8Array>;
+  text(): Promise<string>;
+  stream(): ReadableStream<Uint8Array>;
+  /** Copies the file content to the given destination */
+  saveTo(destination: string): Promise<void>;
+}
+
+/** Limits applied when parsing multipart/form-data bodies */
+export interface MultipartOptions {
+  /** Max size of a single file in bytes
+   * @default 10 MB
+   */
+  maxFileSizeBytes?: number;
+  /** Max number of files
+   * @default 10
+   */
+  maxFiles?: number;
+  /** Max number of non-file fields
+   * @default 100
+   */
+  maxFields?: number;
+  /** Max size of a single non-file field in bytes
+   * @default 1 MB
+   */
+  maxFieldSizeBytes?: number;
+  /** Files bigger than this are streamed to a temporary file instead of being kept in memory
+   * @default 1 MB
+   */
+  inMemoryThresholdBytes?: number;
+  /** Directory used for temporary files
+   * @default os.tmpdir()
+   */
+  tempDir?: string;
+}
+
+/** Fields and files by name. The objects have no prototype, since the names are chosen by the client */
+export interface MultipartResult {
+  fields: { [name: string]: string | string[] };
+  files: { [fieldName: string]: UploadedFile[] };
+}
+
+const MB = 1024 * 1024;
+const MAX_PART_HEADERS_SIZE = 16 * 1024;
+const CRLF = Buffer.from("\r\n");
+const HEADERS_END = Buffer.from("\r\n\r\n");
+const DASH = 0x2d;
+const CR = 0x0d;
+const LF = 0x0a;
+
+export const DEFAULT_MULTIPART_OPTIONS: Required<Omit<MultipartOptions, "tempDir">> = {
+  maxFileSizeBytes: 10 * MB,
+  maxFiles: 10,
+  maxFields: 100,
+  maxFieldSizeBytes: 1 * MB,
+  inMemoryThresholdBytes: 1 * MB,
+};
+
+/** Extracts the boundary from a multipart/form-data content type */
+export function getMultipartBoundary(contentType: string): string | undefined {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+/**
+ * Parses a multipart/form-data body while it is being received.
+ * Big files are written to temporary files, so the whole body is never buffered in memory.
+ * @throws PayloadTooLargeError if a limit is exceeded
+ * @throws InvalidRequestBodyError if the body is malformed
+ */
+export async function parseMultipart(
+  stream: ReadableStream<Uint8Array>,
+  boundary: string,
+  maxBodyBytes: number,
+  options: MultipartOptions = {}
+): Promise<MultipartResult> {
+  const limits = { ...DEFAULT_MULTIPART_OPTIONS, ...options };
+  const tempDir = options.tempDir ?? tmpdir();
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const result: MultipartResult = { fields: Object.create(null), files: Object.create(null) };
+  const uploaded: UploadedFile[] = [];
+  let fieldCount = 0;
+
+  // The leading CRLF lets the first boundary match the same delimiter as the following ones
+  let buffer: Buffer = CRLF;
+  let state = "preamble" as ParserState;
+  let part: PartWriter | undefined;
+  let received = 0;
+
+  const processBuffer = async () => {
+    while (true) {
+      if (state === "preamble") {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+          return;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      }
+
+      if (state === "boundary") {
+        if (buffer.length < 2) return;
+        if (buffer[0] === DASH && buffer[1] === DASH) {
+          state = "end";
+          buffer = Buffer.alloc(0);
+          return;
+        }
+        if (buffer[0] !== CR || buffer[1] !== LF) {
+          throw new InvalidRequestBodyError("Malformed multipart body");
+        }
+        buffer = buffer.subarray(2);
+        state = "headers";
+      }
+
+      if (state === "headers") {
+        const index = buffer.indexOf(HEADERS_END);
+        if (index === -1) {
+          if (buffer.length > MAX_PART_HEADERS_SIZE) {
+            throw new InvalidRequestBodyError("Multipart part headers too large");
+          }
+          return;
+        }
+        part = createPartWriter(buffer.subarray(0, index).toString("utf8"));
+        buffer = buffer.subarray(index + HEADERS_END.length);
+        state = "body";
+      }
+
+      if (state === "body") {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          // Keep enough bytes to detect a delimiter split across chunks
+          const safeLength = buffer.length - delimiter.length + 1;
+          if (safeLength > 0) {
+            await part!.write(buffer.subarray(0, safeLength));
+            buffer = buffer.subarray(safeLength);
+          }
+          return;
+        }
+
+        await part!.write(buffer.subarray(0, index));
+        await part!.finish();
+        part = undefined;
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      }
+
+      if (state === "end") return;
+    }
+  };
+
+  const createPartWriter = (rawHeaders: string): PartWriter => {
+    const headers = parsePartHeaders(rawHeaders);
+    const disposition = parseHeaderParams(headers["content-disposition"] ?? "");
+    const name = disposition["name"];
+    if (!name) {
+      throw new InvalidRequestBodyError("Multipart part without name");
+    }
+
+    const fileName = disposition["filename*"] ? decodeExtendedValue(disposition["filename*"]) : disposition["filename"];
+    if (fileName === undefined) {
+      if (++fieldCount > limits.maxFields) {
+        throw new PayloadTooLargeError(`Too many fields, the limit is ${limits.maxFields}`);
+      }
+      return new FieldWriter(limits.maxFieldSizeBytes, value => {
+        const existing = result.fields[name];
+        result.fields[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+      });
+    }
+
+    if (uploaded.length >= limits.maxFiles) {
+      throw new PayloadTooLargeError(`Too many files, the limit is ${limits.maxFiles}`);
+    }
+
+    return new FileWriter(
+      name,
+      fileName,
+      headers["content-type"] ?? "application/octet-stream",
+      limits.maxFileSizeBytes,
+      limits.inMemoryThresholdBytes,
+      tempDir,
+      file => {
+        uploaded.push(file);
+        (result.files[name] ??= []).push(file);
+      }
+    );
+  };
+
+  try {
+    for await (const chunk of stream) {
+      received += chunk.byteLength;
+      if (received > maxBodyBytes) {
+        throw new PayloadTooLargeError();
+      }
+
+      buffer = Buffer.concat([buffer, chunk]);
+      await processBuffer();
+    }
+
+    if (state !== "end") {
+      throw new InvalidRequestBodyError("Unexpected end of multipart body");
+    }
+    return result;
+  } catch (error) {
+    await part?.abort();
+    await deleteUploadedFiles(uploaded);
+    throw error;
+  }
+}
+
+/** Deletes the temporary files of the given uploads, if any */
+export async function deleteUploadedFiles(files: UploadedFile[]): Promise<void> {
+  await Promise.all(files.map(async file => {
+    if (file.path) {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }));
+}
+
+/**
+ * Deletes the temporary files of the given uploads once the response body has been sent, or cancelled by the client,
+ * since the body may still be reading them (e.g. `res.sendFile(file.path)`). Responses without a body delete them at once.
+ */
+export async function deleteUploadedFilesAfter(response: Response, files: UploadedFile[]): Promise<Response> {
+  const temporaryFiles = files.filter(file => file.path);
+  if (temporaryFiles.length === 0) {
+    return response;
+  }
+  if (!response.body) {
+    await deleteUploadedFiles(temporaryFiles);
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let deleted: Promise<void> | undefined;
+  const cleanup = () => (deleted ??= deleteUploadedFiles(temporaryFiles));
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await reader.read();
+        if (done) {
+          controller.close();
+          await cleanup();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+        await cleanup();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => undefined);
+      await cleanup();
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+type ParserState = "preamble" | "boundary" | "headers" | "body" | "end";
+
+interface PartWriter {
+  write(data: Buffer): Promise<void>;
+  finish(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+class FieldWriter implements PartWriter {
+  private readonly chunks: Buffer[] = [];
+  private size = 0;
+
+  constructor(private readonly maxSize: number, private readonly onFinish: (value: string) => void) { }
+
+  async write(data: Buffer): Promise<void> {
+    this.size += data.length;
+    if (this.size > this.maxSize) {
+      throw new PayloadTooLargeError(`Field too large, the limit is ${this.maxSize} bytes`);
+    }
+    this.chunks.push(data);
+  }
+
+  async finish(): Promise<void> {
+    this.onFinish(Buffer.concat(this.chunks).toString("utf8"));
+  }
+
+  async abort(): Promise<void> { }
+}
+
+class FileWriter implements PartWriter {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private handle?: FileHandle;
+  private path?: string;
+
+  constructor(
+    private readonly fieldName: string,
+    private readonly fileName: string,
+    private readonly type: string,
+    private readonly maxSize: number,
+    private readonly inMemoryThreshold: number,
+    private readonly tempDir: string,
+    private readonly onFinish: (file: UploadedFile) => void
+  ) { }
+
+  async write(data: Buffer): Promise<void> {
+    if (data.length === 0) return;
+
+    this.size += data.length;
+    if (this.size > this.maxSize) {
+      throw new PayloadTooLargeError(`File too large, the limit is ${this.maxSize} bytes`);
+    }
+
+    if (!this.handle && this.size > this.inMemoryThreshold) {
+      this.path = join(this.tempDir, `upload-${randomUUID()}`);
+      this.handle = await open(this.path, "w");
+      await this.handle.write(Buffer.concat(this.chunks));
+      this.chunks = [];
+    }
+
+    if (this.handle) {
+      await this.handle.write(data);
+    } else {
+      this.chunks.push(data);
+    }
+  }
+
+  async finish(): Promise<void> {
+    await this.handle?.close();
+    this.handle = undefined;
+    const content = this.path ? undefined : Buffer.concat(this.chunks);
+    this.onFinish(new StoredFile(this.fieldName, this.fileName, this.type, this.size, content, this.path));
+  }
+
+  async abort(): Promise<void> {
+    await this.handle?.close().catch(() => undefined);
+    if (this.path) {
+      await unlink(this.path).catch(() => undefined);
+    }
+  }
+}
+
+class StoredFile implements UploadedFile {
+  constructor(
+    readonly fieldName: string,
+    readonly name: string,
+    readonly type: string,
+    readonly size: number,
+    private readonly content: Buffer | undefined,
+    readonly path?: string
+  ) { }
+
+  async bytes(): Promise<Uint8Array> {
+    if (this.path) {
+      return new Uint8Array(await Bun.file(this.path).arrayBuffer());
+    }
+    return new Uint8Array(this.content!);
+  }
+
+  async text(): Promise<string> {
+    return new TextDecoder().decode(await this.bytes());
+  }
+
+  stream(): ReadableStream<Uint8Array> {
+    if (this.path) {
+      return Bun.file(this.path).stream();
+    }
+    return new Blob([this.content!]).stream();
+  }
+
+  async saveTo(destination: string): Promise<void> {
+    await Bun.write(destination, this.path ? Bun.file(this.path) : this.content!);
+  }
+}
+
+function parsePartHeaders(raw: string): { [name: string]: string } {
+  const headers: { [name: string]: string } = {};
+  for (const line of raw.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function parseHeaderParams(value: string): { [name: string]: string } {
+  const params: { [name: string]: string } = {};
+  const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    params[match[1]!.toLowerCase()] = match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3]!.trim();
+  }
+  return params;
+}
+
+/** Decodes an RFC 5987 extended value, e.g. UTF-8''na%C3%AFve.txt */
+function decodeExtendedValue(value: string): string {
+  const encoded = value.replace(/^[^']*'[^']*'/, "");
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    return encoded;
+  }
+}
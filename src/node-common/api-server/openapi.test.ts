@@ -0,0 +1,103 @@
+/**
+ * OpenAPI generation tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { schema } from "../schema";
+import { BunApiServer } from "./bun-api-server";
+import { BunRouter } from "./bun-router";
+import { generateOpenApiDocument, type OpenApiOptions } from "./openapi";
+
+const PORT = 39405;
+const options: OpenApiOptions = { info: { title: "Orders", version: "1.0.0" } };
+
+describe("generateOpenApiDocument", () => {
+  const order = schema.object({ id: schema.string(), quantity: schema.int({ min: 1 }) });
+
+  it("should document the parameters, the body, the responses and the security of a route", () => {
+    const router = new BunRouter();
+    router.definePostRoute("/orders/:customerId(\\d+)", () => { }, {
+      schema: {
+        query: schema.object({ dryRun: schema.boolean().optional() }),
+        body: schema.object({ quantity: schema.int({ min: 1 }) }),
+      },
+      responses: { 201: order },
+      summary: "Create an order",
+      tags: ["orders"],
+      operationId: "createOrder",
+      requiresAuth: true,
+    });
+
+    const document = generateOpenApiDocument(router.resolveRoutes(), options);
+    const operation = document.paths["/orders/{customerId}"].post;
+
+    expect(document).toMatchObject({ openapi: "3.1.0", info: options.info });
+    expect(document.components.securitySchemes.bearerAuth).toMatchObject({ type: "http", scheme: "bearer" });
+    expect(operation).toMatchObject({ summary: "Create an order", tags: ["orders"], operationId: "createOrder" });
+    expect(operation.parameters).toEqual([
+      { name: "customerId", in: "path", required: true, schema: { type: "string", pattern: "^(?:\\d+)$" } },
+      { name: "dryRun", in: "query", required: false, schema: expect.objectContaining({ type: "boolean" }) },
+    ]);
+    expect(operation.requestBody).toMatchObject({ required: true, content: { "application/json": { schema: { type: "object" } } } });
+    expect(Object.keys(operation.responses)).toEqual(["201", "400"]);
+    expect(operation.responses["201"].content["application/json"].schema).toEqual(order.toJsonSchema());
+    expect(operation.security).toEqual([{ bearerAuth: [] }]);
+  });
+
+  it("should document a route with an optional param under both paths, with a single operation id", () => {
+    const router = new BunRouter();
+    router.defineGetRoute("/files/:name?", () => { }, { operationId: "getFiles" });
+    router.defineGetRoute("/internal", () => { }, { hidden: true });
+
+    const document = generateOpenApiDocument(router.resolveRoutes(), options);
+
+    expect(Object.keys(document.paths)).toEqual(["/files", "/files/{name}"]);
+    expect(document.paths["/files"].get.operationId).toBeUndefined();
+    expect(document.paths["/files/{name}"].get.operationId).toBe("getFiles");
+    expect(document.paths["/files"].get.responses).toEqual({ "200": { description: "Successful response" } });
+  });
+
+  it("should document the body of the multipart routes as form data", () => {
+    const router = new BunRouter();
+    router.definePostRoute("/documents", () => { }, {
+      multipart: { maxFiles: 1 },
+      schema: { body: schema.object({ title: schema.string() }) },
+    });
+    router.definePostRoute("/attachments", () => { }, { multipart: {} });
+
+    const document = generateOpenApiDocument(router.resolveRoutes(), options);
+
+    expect(document.paths["/documents"].post.requestBody).toEqual({
+      required: true,
+      content: { "multipart/form-data": { schema: expect.objectContaining({ type: "object" }) } },
+    });
+    expect(Object.keys(document.paths["/attachments"].post.requestBody.content)).toEqual(["multipart/form-data"]);
+  });
+});
+
+describe("BunApiServer.enableOpenApi", () => {
+  it("should serve the document of the routes registered before and after the start, without its own route", async () => {
+    const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+    const server = new BunApiServer(loggerFactory, PORT);
+    server.init([], undefined, undefined, undefined, false);
+    server.enableOpenApi(options);
+    server.defineGetRoute("/orders", (_req, res) => {
+      res.json([]);
+    });
+    await server.start();
+
+    try {
+      const document: any = await (await fetch(`http://localhost:${PORT}/openapi.json`)).json();
+      expect(Object.keys(document.paths)).toEqual(["/orders"]);
+
+      server.defineGetRoute("/customers", (_req, res) => {
+        res.json([]);
+      });
+      const updated: any = await (await fetch(`http://localhost:${PORT}/openapi.json`)).json();
+      expect(Object.keys(updated.paths)).toEqual(["/orders", "/customers"]);
+    } finally {
+      await server.stop();
+    }
+  });
+});
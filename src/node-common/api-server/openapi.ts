@@ -0,0 +1,210 @@
+import type { JsonSchema, SchemaBase } from "../schema";
+import type { BunRouteDefinition, BunRouteResponseDoc } from "./bun-types";
+import { PROBLEM_JSON_CONTENT_TYPE } from "./http-errors";
+import { parseRoutePath } from "./route-tree";
+
+const DEFAULT_SECURITY_SCHEME = "bearerAuth";
+
+/** Options of the generated OpenAPI document */
+export interface OpenApiOptions {
+  /** Path where the document is served
+   * @default "/openapi.json"
+   */
+  path?: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: { url: string; description?: string }[];
+  /** Security schemes available to the routes.
+   * @default { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } }
+   */
+  securitySchemes?: { [name: string]: JsonSchema };
+  /** Security scheme used by routes declaring `requiresAuth: true`
+   * @default the first security scheme
+   */
+  defaultSecurityScheme?: string;
+}
+
+/** OpenAPI 3.1 document */
+export type OpenApiDocument = { [key: string]: any };
+
+/** Problem details returned for invalid requests */
+const VALIDATION_ERROR_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    type: { type: "string" },
+    title: { type: "string" },
+    status: { type: "integer" },
+    detail: { type: "string" },
+    instance: { type: "string" },
+    errors: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          code: { type: "string" },
+          message: { type: "string" },
+          field: { type: "string" },
+        },
+        required: ["code", "message"],
+      },
+    },
+  },
+  required: ["type", "title", "status"],
+};
+
+/** Generates an OpenAPI 3.1 document from the given route definitions */
+export function generateOpenApiDocument(routes: BunRouteDefinition[], options: OpenApiOptions): OpenApiDocument {
+  const securitySchemes = options.securitySchemes ?? {
+    [DEFAULT_SECURITY_SCHEME]: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+  };
+  const defaultScheme = options.defaultSecurityScheme ?? Object.keys(securitySchemes)[0] ?? DEFAULT_SECURITY_SCHEME;
+
+  const paths: { [path: string]: { [method: string]: JsonSchema } } = {};
+  for (const route of routes) {
+    if (route.options.hidden) continue;
+
+    const routePaths = toOpenApiPaths(route.path);
+    routePaths.forEach(({ path, params }, index) => {
+      const operation = buildOperation(route, params, defaultScheme);
+      // Operation ids must be unique, so only the full path of an optional param route keeps it
+      if (index < routePaths.length - 1) delete operation.operationId;
+
+      paths[path] ??= {};
+      paths[path][route.method.toLowerCase()] = operation;
+    });
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    components: { securitySchemes },
+  };
+}
+
+/** Generates the OpenAPI document and writes it to the given file, e.g. at build time for client generation */
+export async function exportOpenApiDocument(
+  routes: BunRouteDefinition[],
+  filePath: string,
+  options: OpenApiOptions
+): Promise<void> {
+  const document = generateOpenApiDocument(routes, options);
+  await Bun.write(filePath, JSON.stringify(document, null, 2));
+}
+
+function buildOperation(route: BunRouteDefinition, pathParams: { name: string; pattern?: string }[], defaultScheme: string): JsonSchema {
+  const { options } = route;
+  const schema = options.schema;
+
+  const paramsSchema = schema?.params?.toJsonSchema();
+  const parameters: JsonSchema[] = [
+    ...pathParams.map(param => ({
+      name: param.name,
+      in: "path",
+      required: true,
+      schema: paramsSchema?.properties?.[param.name]
+        ?? { type: "string", ...(param.pattern ? { pattern: `^(?:${param.pattern})$` } : {}) },
+    })),
+    ...toParameters("query", schema?.query),
+    ...toParameters("header", schema?.headers),
+  ];
+
+  const responses: { [status: string]: JsonSchema } = {};
+  for (const [status, response] of Object.entries(options.responses ?? {})) {
+    responses[status] = toResponse(response);
+  }
+  if (Object.keys(responses).length === 0) {
+    responses["200"] = { description: "Successful response" };
+  }
+  if (schema && !responses["400"]) {
+    responses["400"] = {
+      description: "Request validation failed",
+      content: { [PROBLEM_JSON_CONTENT_TYPE]: { schema: VALIDATION_ERROR_SCHEMA } },
+    };
+  }
+
+  const security = options.requiresAuth === true
+    ? [{ [defaultScheme]: [] }]
+    : Array.isArray(options.requiresAuth) ? options.requiresAuth.map(name => ({ [name]: [] })) : undefined;
+
+  return {
+    ...(options.summary ? { summary: options.summary } : {}),
+    ...(options.description ? { description: options.description } : {}),
+    ...(options.tags ? { tags: options.tags } : {}),
+    ...(options.operationId ? { operationId: options.operationId } : {}),
+    ...(options.deprecated ? { deprecated: true } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...toRequestBody(route),
+    responses,
+    ...(security ? { security } : {}),
+  };
+}
+
+/** Multipart routes (with `multipart` limits) take form data, the others JSON */
+function toRequestBody(route: BunRouteDefinition): JsonSchema {
+  const body = route.options.schema?.body;
+  if (route.options.multipart) {
+    return {
+      requestBody: {
+        required: body ? !body.isOptional() : true,
+        content: { "multipart/form-data": { schema: body?.toJsonSchema() ?? { type: "object" } } },
+      },
+    };
+  }
+
+  return body ? { requestBody: { required: !body.isOptional(), content: { "application/json": { schema: body.toJsonSchema() } } } } : {};
+}
+
+/** Converts a route path to OpenAPI paths. A route with an optional param produces two paths */
+function toOpenApiPaths(routePath: string): { path: string; params: { name: string; pattern?: string }[] }[] {
+  const segments = parseRoutePath(routePath);
+  const parts: string[] = [];
+  const params: { name: string; pattern?: string }[] = [];
+  const result: { path: string; params: { name: string; pattern?: string }[] }[] = [];
+
+  for (const segment of segments) {
+    if (segment.kind === "static") {
+      parts.push(segment.value);
+      continue;
+    }
+
+    if (segment.kind === "param" && segment.optional) {
+      result.push({ path: `/${parts.join("/")}`, params: [...params] });
+    }
+
+    const name = segment.kind === "wildcard" && segment.name === "*" ? "wildcard" : segment.name;
+    const pattern = segment.kind === "param" && segment.constraint ? segment.constraint : undefined;
+    parts.push(`{${name}}`);
+    params.push({ name, pattern });
+  }
+
+  result.push({ path: `/${parts.join("/")}`, params });
+  return result;
+}
+
+function toParameters(location: "query" | "header", schema: SchemaBase<any> | undefined): JsonSchema[] {
+  const jsonSchema = schema?.toJsonSchema();
+  if (!jsonSchema?.properties) return [];
+
+  const required: string[] = jsonSchema.required ?? [];
+  return Object.entries(jsonSchema.properties).map(([name, propertySchema]) => ({
+    name,
+    in: location,
+    required: required.includes(name),
+    schema: propertySchema,
+  }));
+}
+
+function toResponse(response: SchemaBase<any> | BunRouteResponseDoc): JsonSchema {
+  const doc: BunRouteResponseDoc = "toJsonSchema" in response ? { schema: response } : response;
+  return {
+    description: doc.description ?? "Response",
+    ...(doc.schema ? {
+      content: { [doc.contentType ?? "application/json"]: { schema: doc.schema.toJsonSchema() } },
+    } : {}),
+  };
+}
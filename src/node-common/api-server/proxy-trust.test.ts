@@ -0,0 +1,105 @@
+/**
+ * Trusted proxy resolution tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { BunApiServer } from "./bun-api-server";
+import { compileProxyTrust, parseForwardedHeader, resolveClientAddress, type ForwardedHeaders } from "./proxy-trust";
+
+const URL_HTTP = new URL("http://internal:3000/orders");
+
+function resolve(
+  headers: Record<string, string>,
+  socketAddress: string,
+  trust: Parameters<typeof compileProxyTrust>[0],
+  source: ForwardedHeaders = "x-forwarded"
+) {
+  return resolveClientAddress(new Headers(headers), URL_HTTP, socketAddress, compileProxyTrust(trust), source);
+}
+
+describe("proxy trust", () => {
+  it("should ignore the forwarded headers when no proxy is trusted", () => {
+    const client = resolve({ "x-forwarded-for": "1.1.1.1", "x-forwarded-proto": "https", host: "internal:3000" }, "::ffff:10.0.0.2", false);
+
+    expect(client).toEqual({ ip: "10.0.0.2", ips: [], protocol: "http", hostname: "internal" });
+  });
+
+  it("should stop at the first untrusted address of X-Forwarded-For", () => {
+    const headers = { "x-forwarded-for": "6.6.6.6, 1.1.1.1, 10.0.0.5", "x-forwarded-proto": "https", "x-forwarded-host": "api.example.com" };
+
+    expect(resolve(headers, "10.0.0.2", ["10.0.0.0/8"])).toEqual({
+      ip: "1.1.1.1",
+      ips: ["1.1.1.1", "10.0.0.5"],
+      protocol: "https",
+      hostname: "api.example.com",
+    });
+    expect(resolve(headers, "10.0.0.2", 1).ip).toBe("10.0.0.5");
+    expect(resolve(headers, "10.0.0.2", true).ip).toBe("6.6.6.6");
+  });
+
+  it("should parse the Forwarded header", () => {
+    expect(parseForwardedHeader('for=192.0.2.60;proto=https;by=203.0.113.43, for="[2001:db8:cafe::17]:4711"')).toEqual([
+      { for: "192.0.2.60", proto: "https", by: "203.0.113.43" },
+      { for: "[2001:db8:cafe::17]:4711" },
+    ]);
+
+    const client = resolve(
+      { forwarded: 'for="[2001:db8:cafe::17]:4711";proto=https;host="shop.example.com:443"' },
+      "127.0.0.1",
+      ["127.0.0.1"],
+      "forwarded"
+    );
+    expect(client).toEqual({ ip: "2001:db8:cafe::17", ips: ["2001:db8:cafe::17"], protocol: "https", hostname: "shop.example.com" });
+  });
+
+  it("should ignore the Forwarded header passed through by an X-Forwarded-For proxy", () => {
+    const headers = { forwarded: "for=1.2.3.4;proto=https;host=evil.example.com", "x-forwarded-for": "6.6.6.6" };
+
+    expect(resolve(headers, "10.0.0.2", 1)).toEqual({ ip: "6.6.6.6", ips: ["6.6.6.6"], protocol: "http", hostname: "internal" });
+  });
+
+  it("should ignore the X-Forwarded-* headers when the proxies write Forwarded", () => {
+    const headers = { forwarded: "for=6.6.6.6", "x-forwarded-for": "1.2.3.4", "x-forwarded-proto": "https" };
+
+    expect(resolve(headers, "10.0.0.2", 1, "forwarded")).toMatchObject({ ip: "6.6.6.6", protocol: "http" });
+  });
+
+  it("should reject invalid trusted addresses", () => {
+    expect(() => compileProxyTrust(["10.0.0.0/8", "proxy.local"])).toThrow();
+  });
+});
+
+describe("BunApiServer trustProxy", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, 39414);
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false, 1);
+    server.defineGetRoute("/client", (req, res) => {
+      res.json({ ip: req.ip, protocol: req.protocol });
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+  });
+
+  it("should not let a client forge its address with a Forwarded header", async () => {
+    // The proxy appends the client address to X-Forwarded-For and passes the client's Forwarded header through
+    const response = await fetch("http://localhost:39414/client", {
+      headers: { forwarded: "for=1.2.3.4;proto=https", "x-forwarded-for": "5.6.7.8" },
+    });
+
+    expect(await response.json()).toEqual({ ip: "5.6.7.8", protocol: "http" });
+  });
+
+  it("should trust the proxies set with init", async () => {
+    const response = await fetch("http://localhost:39414/client", {
+      headers: { "x-forwarded-for": "1.1.1.1", "x-forwarded-proto": "https" },
+    });
+
+    expect(await response.json()).toEqual({ ip: "1.1.1.1", protocol: "https" });
+  });
+});
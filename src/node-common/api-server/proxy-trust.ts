@@ -0,0 +1,188 @@
+import { BlockList, isIP } from "net";
+
+/**
+ * Which proxies in front of the server are trusted to report the client address:
+ * - `false`: none, the socket address is the client address
+ * - `true`: all, the left-most forwarded address is the client address
+ * - a number: the given amount of hops, e.g. `1` behind a single load balancer
+ * - a list of IP addresses and CIDR ranges, e.g. `["10.0.0.0/8", "::1"]`
+ */
+export type TrustProxySetting = boolean | number | string[];
+
+/**
+ * Headers the trusted proxies report the client with. Only this source is read, the other headers are ignored,
+ * since proxies usually pass through the headers they don't write:
+ * - `x-forwarded`: `X-Forwarded-For`, `X-Forwarded-Proto` and `X-Forwarded-Host`
+ * - `forwarded`: the `Forwarded` header (RFC 7239)
+ */
+export type ForwardedHeaders = "x-forwarded" | "forwarded";
+
+/** Returns true if the address, at the given hop from the server (0 is the socket peer), is a trusted proxy */
+export type ProxyTrust = (address: string, hop: number) => boolean;
+
+/** Client information resolved through the trusted proxies */
+export interface ClientAddressInfo {
+  /** Client address */
+  ip: string;
+  /** Forwarded addresses from the client to the closest proxy, empty when no proxy is trusted */
+  ips: string[];
+  /** `http` or `https`, as seen by the client */
+  protocol: string;
+  /** Host name requested by the client, without the port */
+  hostname: string;
+}
+
+/** A single element of the `Forwarded` header (RFC 7239) */
+export interface ForwardedElement {
+  for?: string;
+  proto?: string;
+  host?: string;
+  by?: string;
+}
+
+/** Compiles the trust proxy setting into a predicate. Throws if an address or range is invalid */
+export function compileProxyTrust(setting: TrustProxySetting): ProxyTrust {
+  if (typeof setting === "boolean") {
+    return () => setting;
+  }
+  if (typeof setting === "number") {
+    return (_address, hop) => hop < setting;
+  }
+
+  const trusted = new BlockList();
+  for (const entry of setting) {
+    const [address, prefix] = entry.split("/");
+    const family = isIP(address ?? "");
+    if (!family) {
+      throw new Error(`Invalid trusted proxy address '${entry}'`);
+    }
+
+    const type = family === 4 ? "ipv4" : "ipv6";
+    if (prefix === undefined) {
+      trusted.addAddress(address!, type);
+    } else {
+      trusted.addSubnet(address!, Number(prefix), type);
+    }
+  }
+
+  return address => {
+    const family = isIP(address);
+    return family !== 0 && trusted.check(address, family === 4 ? "ipv4" : "ipv6");
+  };
+}
+
+/** Parses the `Forwarded` header into its elements, from the client to the closest proxy */
+export function parseForwardedHeader(header: string): ForwardedElement[] {
+  return splitOutsideQuotes(header, ",").map(element => {
+    const parsed: ForwardedElement = {};
+    for (const pair of splitOutsideQuotes(element, ";")) {
+      const separator = pair.indexOf("=");
+      if (separator === -1) continue;
+
+      const key = pair.slice(0, separator).trim().toLowerCase();
+      const value = unquote(pair.slice(separator + 1).trim());
+      if (key === "for" || key === "by" || key === "proto" || key === "host") {
+        parsed[key] = value;
+      }
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Resolves the client address, protocol and host name of a request.
+ * The forwarded addresses are walked from the closest proxy towards the client, and the first untrusted one is the client.
+ * Only the headers of `source` are read.
+ */
+export function resolveClientAddress(
+  headers: Headers,
+  url: URL,
+  socketAddress: string | undefined,
+  trust: ProxyTrust,
+  source: ForwardedHeaders = "x-forwarded"
+): ClientAddressInfo {
+  const elements: ForwardedElement[] = source === "forwarded"
+    ? parseForwardedHeader(headers.get("forwarded") ?? "")
+    : splitList(headers.get("x-forwarded-for")).map(address => ({ for: address }));
+
+  // Closest first: the socket peer, then the forwarded addresses from right to left
+  const addresses = [normalizeAddress(socketAddress ?? "unknown")];
+  for (let i = elements.length - 1; i >= 0; i--) {
+    addresses.push(normalizeAddress(elements[i]!.for ?? "unknown"));
+  }
+
+  let hop = 0;
+  while (hop < addresses.length - 1 && trust(addresses[hop]!, hop)) {
+    hop++;
+  }
+
+  const socketTrusted = trust(addresses[0]!, 0);
+  // The element added by the proxy the client connected to
+  const clientElement = hop > 0 ? elements[elements.length - hop] : undefined;
+
+  let protocol = url.protocol.slice(0, -1);
+  let host = headers.get("host") ?? url.host;
+  if (socketTrusted) {
+    if (source === "forwarded") {
+      protocol = clientElement?.proto ?? protocol;
+      host = clientElement?.host ?? host;
+    } else {
+      protocol = splitList(headers.get("x-forwarded-proto"))[0] ?? protocol;
+      host = splitList(headers.get("x-forwarded-host"))[0] ?? host;
+    }
+  }
+
+  return {
+    ip: addresses[hop]!,
+    ips: addresses.slice(1, hop + 1).reverse(),
+    protocol: protocol.toLowerCase(),
+    hostname: stripPort(host),
+  };
+}
+
+/** Removes the port and the IPv6 brackets of a node, and unwraps IPv4-mapped IPv6 addresses */
+function normalizeAddress(node: string): string {
+  let address = node.trim();
+  if (address.startsWith("[")) {
+    address = address.slice(1, address.indexOf("]") === -1 ? undefined : address.indexOf("]"));
+  } else if (address.split(":").length === 2) {
+    // IPv4 with port
+    address = address.split(":")[0]!;
+  }
+
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1]! : address;
+}
+
+function stripPort(host: string): string {
+  if (host.startsWith("[")) {
+    const end = host.indexOf("]");
+    return end === -1 ? host : host.slice(0, end + 1);
+  }
+  return host.split(":")[0]!;
+}
+
+function splitList(header: string | null): string[] {
+  return header ? header.split(",").map(value => value.trim()).filter(Boolean) : [];
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, "$1") : value;
+}
@@ -0,0 +1,66 @@
+import type { ActionError } from "../action";
+import type { SchemaBase } from "../schema";
+import { ApiServerConstants } from "./api-server-constants";
+import type { BunApiServerRequest, BunRouteHandler, BunRouteSchema } from "./bun-types";
+import { ValidationHttpError } from "./http-errors";
+
+/**
+ * Validates the request against the given schema.
+ * On success body, query and params are replaced with the parsed (coerced) values.
+ * @returns The validation errors, empty if the request is valid
+ */
+export function validateRequest(req: BunApiServerRequest, schema: BunRouteSchema): ActionError[] {
+  const errors: ActionError[] = [];
+
+  const parse = (source: string, target: SchemaBase<any> | undefined, value: unknown, coerce: boolean) => {
+    if (!target) return value;
+
+    const result = target.parse(value, { coerce });
+    if (result.success) return result.value;
+
+    for (const issue of result.issues) {
+      const field = issue.path ? `${source}.${issue.path}` : source;
+      errors.push({ code: issue.code, message: `${field}: ${issue.message}`, field });
+    }
+    return value;
+  };
+
+  const body = parse("body", schema.body, req.body, false);
+  const query = parse("query", schema.query, getQueryInput(req.url), true);
+  const params = parse("params", schema.params, req.params, true);
+  parse("headers", schema.headers, req.headers, true);
+
+  if (errors.length === 0) {
+    if (schema.body) req.body = body;
+    if (schema.query) req.query = query;
+    if (schema.params) req.params = params;
+  }
+
+  return errors;
+}
+
+/**
+ * Wraps a route handler so that it runs only if the request matches the schema.
+ * Invalid requests throw a 400 `ValidationHttpError`, answered with problem details
+ */
+export function withSchemaValidation(schema: BunRouteSchema, handler: BunRouteHandler): BunRouteHandler {
+  return async (req, res) => {
+    const errors = validateRequest(req, schema);
+    if (errors.length > 0) {
+      throw new ValidationHttpError(errors, "Request validation failed", { status: ApiServerConstants.BAD_REQUEST });
+    }
+
+    await handler(req, res);
+  };
+}
+
+/** Builds the query object to validate, keeping every value of repeated keys */
+function getQueryInput(url: string): { [key: string]: string | string[] } {
+  const query: { [key: string]: string | string[] } = {};
+  for (const [key, value] of new URL(url).searchParams) {
+    const existing = query[key];
+    if (existing === undefined) query[key] = value;
+    else query[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+  return query;
+}
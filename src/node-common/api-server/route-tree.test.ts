@@ -0,0 +1,81 @@
+/**
+ * Route tree tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { RouteTree } from "./route-tree";
+
+describe("RouteTree", () => {
+  it("should prefer static segments over params regardless of registration order", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/users/:id", "by-id");
+    tree.insert("GET", "/users/me", "me");
+
+    expect(tree.lookup("GET", "/users/me")).toEqual({ type: "found", value: "me", params: {} });
+    expect(tree.lookup("GET", "/users/42")).toEqual({ type: "found", value: "by-id", params: { id: "42" } });
+  });
+
+  it("should prefer constrained params over unconstrained ones", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/items/:slug", "slug");
+    tree.insert("GET", "/items/:id(\\d+)", "numeric");
+
+    expect(tree.lookup("GET", "/items/10")).toEqual({ type: "found", value: "numeric", params: { id: "10" } });
+    expect(tree.lookup("GET", "/items/abc")).toEqual({ type: "found", value: "slug", params: { slug: "abc" } });
+  });
+
+  it("should backtrack when a more specific branch does not match", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/users/me", "me");
+    tree.insert("GET", "/users/:id/posts", "posts");
+
+    expect(tree.lookup("GET", "/users/me/posts")).toEqual({ type: "found", value: "posts", params: { id: "me" } });
+  });
+
+  it("should match optional trailing params", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/files/:name?", "files");
+
+    expect(tree.lookup("GET", "/files")).toEqual({ type: "found", value: "files", params: {} });
+    expect(tree.lookup("GET", "/files/a.txt")).toEqual({ type: "found", value: "files", params: { name: "a.txt" } });
+  });
+
+  it("should capture the rest of the path with wildcards", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/assets/*", "assets");
+    tree.insert("GET", "/docs/*path", "docs");
+    tree.insert("GET", "/assets/logo.png", "logo");
+
+    expect(tree.lookup("GET", "/assets/css/site.css")).toEqual({ type: "found", value: "assets", params: { "*": "css/site.css" } });
+    expect(tree.lookup("GET", "/assets/logo.png")).toEqual({ type: "found", value: "logo", params: {} });
+    expect(tree.lookup("GET", "/docs/a/b%20c")).toEqual({ type: "found", value: "docs", params: { path: "a/b c" } });
+  });
+
+  it("should report allowed methods when only the method does not match", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/orders/:id", "get");
+    tree.insert("DELETE", "/orders/:id", "delete");
+
+    expect(tree.lookup("POST", "/orders/1")).toEqual({
+      type: "method-not-allowed",
+      allowedMethods: ["DELETE", "GET", "HEAD"],
+    });
+    expect(tree.lookup("POST", "/missing")).toEqual({ type: "not-found" });
+  });
+
+  it("should fall back to GET routes for HEAD requests", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/ping", "ping");
+
+    expect(tree.lookup("HEAD", "/ping")).toEqual({ type: "found", value: "ping", params: {} });
+  });
+
+  it("should reject duplicated and malformed routes", () => {
+    const tree = new RouteTree<string>();
+    tree.insert("GET", "/users/:id", "a");
+
+    expect(() => tree.insert("GET", "/users/:userId", "b")).toThrow("already defined");
+    expect(() => tree.insert("GET", "/assets/*/more", "c")).toThrow("last segment");
+    expect(() => tree.insert("GET", "/files/:name?/more", "d")).toThrow("optional");
+  });
+});
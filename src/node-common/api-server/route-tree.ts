@@ -0,0 +1,251 @@
+/** Result of a route lookup */
+export type RouteLookupResult<T> =
+  | { type: "found"; value: T; params: { [key: string]: string } }
+  | { type: "method-not-allowed"; allowedMethods: string[] }
+  | { type: "not-found" };
+
+interface RouteEntry<T> {
+  value: T;
+  /** Names of the captured params, in the order they appear in the path */
+  paramNames: string[];
+}
+
+interface ParamEdge<T> {
+  /** Source of the constraint regex, empty when the param is unconstrained */
+  constraint: string;
+  pattern?: RegExp;
+  node: RouteNode<T>;
+}
+
+interface RouteNode<T> {
+  staticChildren: Map<string, RouteNode<T>>;
+  paramChildren: ParamEdge<T>[];
+  wildcard?: Map<string, RouteEntry<T>>;
+  handlers: Map<string, RouteEntry<T>>;
+}
+
+/** A segment of a route path, as parsed by `parseRoutePath` */
+export type RouteSegment =
+  | { kind: "static"; value: string }
+  | { kind: "param"; name: string; constraint: string; optional: boolean }
+  | { kind: "wildcard"; name: string };
+
+const PARAM_SEGMENT = /^:([A-Za-z0-9_]+)(?:\((.+)\))?(\?)?$/;
+const WILDCARD_SEGMENT = /^\*([A-Za-z0-9_]*)$/;
+
+/**
+ * Segment based route tree used to resolve a request path to its handler.
+ *
+ * Supported path syntax:
+ * - static segments: `/users/me`
+ * - named params: `/users/:id`
+ * - constrained params: `/users/:id(\d+)`
+ * - optional trailing params: `/files/:name?`
+ * - catch-all wildcards as last segment: `/assets/*` (captured as `*`) or `/assets/*path`.
+ *   A wildcard captures the rest of the path, which can also be empty
+ *
+ * Lookup is independent from registration order: for every segment, static matches win over
+ * constrained params, which win over unconstrained params, which win over wildcards.
+ */
+export class RouteTree<T> {
+  private readonly root: RouteNode<T> = createNode();
+
+  /** Registers a value for the given method and path.
+   * @throws Error if the path is malformed or the method/path pair is already registered
+   */
+  insert(method: string, path: string, value: T): void {
+    const segments = parseRoutePath(path);
+    const optionalIndex = segments.findIndex(s => s.kind === "param" && s.optional);
+    if (optionalIndex !== -1 && optionalIndex !== segments.length - 1) {
+      throw new Error(`Invalid route ${path}: only the last segment can be optional`);
+    }
+
+    this.insertSegments(method.toUpperCase(), path, segments, value);
+
+    // An optional trailing param also matches the path without it
+    if (optionalIndex !== -1) {
+      this.insertSegments(method.toUpperCase(), path, segments.slice(0, -1), value);
+    }
+  }
+
+  /** Resolves the given method and path.
+   * HEAD requests fall back to GET routes when no HEAD route is registered.
+   */
+  lookup(method: string, path: string): RouteLookupResult<T> {
+    const segments = splitPath(path);
+    const upperMethod = method.toUpperCase();
+
+    const found = this.find(this.root, segments, 0, [], upperMethod)
+      ?? (upperMethod === "HEAD" ? this.find(this.root, segments, 0, [], "GET") : undefined);
+    if (found) {
+      const params: { [key: string]: string } = {};
+      found.entry.paramNames.forEach((name, index) => {
+        params[name] = found.values[index] ?? "";
+      });
+      return { type: "found", value: found.entry.value, params };
+    }
+
+    const allowed = new Set<string>();
+    this.collectMethods(this.root, segments, 0, allowed);
+    if (allowed.size === 0) {
+      return { type: "not-found" };
+    }
+
+    if (allowed.has("GET")) allowed.add("HEAD");
+    return { type: "method-not-allowed", allowedMethods: [...allowed].sort() };
+  }
+
+  private insertSegments(method: string, path: string, segments: RouteSegment[], value: T): void {
+    let node = this.root;
+    const paramNames: string[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i]!;
+
+      if (segment.kind === "static") {
+        let child = node.staticChildren.get(segment.value);
+        if (!child) {
+          child = createNode();
+          node.staticChildren.set(segment.value, child);
+        }
+        node = child;
+        continue;
+      }
+
+      if (segment.kind === "param") {
+        let edge = node.paramChildren.find(e => e.constraint === segment.constraint);
+        if (!edge) {
+          edge = {
+            constraint: segment.constraint,
+            pattern: segment.constraint ? new RegExp(`^(?:${segment.constraint})$`) : undefined,
+            node: createNode(),
+          };
+          node.paramChildren.push(edge);
+          // Constrained params are more specific than unconstrained ones
+          node.paramChildren.sort((a, b) => Number(!a.constraint) - Number(!b.constraint));
+        }
+        paramNames.push(segment.name);
+        node = edge.node;
+        continue;
+      }
+
+      if (i !== segments.length - 1) {
+        throw new Error(`Invalid route ${path}: wildcards are only allowed as last segment`);
+      }
+
+      node.wildcard ??= new Map();
+      paramNames.push(segment.name);
+      addEntry(node.wildcard, method, path, { value, paramNames });
+      return;
+    }
+
+    addEntry(node.handlers, method, path, { value, paramNames });
+  }
+
+  private find(
+    node: RouteNode<T>,
+    segments: string[],
+    index: number,
+    values: string[],
+    method: string
+  ): { entry: RouteEntry<T>; values: string[] } | undefined {
+    if (index === segments.length) {
+      const entry = node.handlers.get(method);
+      if (entry) return { entry, values };
+    } else {
+      const segment = segments[index]!;
+
+      const staticChild = node.staticChildren.get(segment);
+      if (staticChild) {
+        const result = this.find(staticChild, segments, index + 1, values, method);
+        if (result) return result;
+      }
+
+      const decoded = decodeSegment(segment);
+      for (const edge of node.paramChildren) {
+        if (edge.pattern && !edge.pattern.test(decoded)) continue;
+        const result = this.find(edge.node, segments, index + 1, [...values, decoded], method);
+        if (result) return result;
+      }
+    }
+
+    const wildcardEntry = node.wildcard?.get(method);
+    if (wildcardEntry) {
+      const rest = segments.slice(index).map(decodeSegment).join("/");
+      return { entry: wildcardEntry, values: [...values, rest] };
+    }
+
+    return undefined;
+  }
+
+  private collectMethods(node: RouteNode<T>, segments: string[], index: number, allowed: Set<string>): void {
+    node.wildcard?.forEach((_, method) => allowed.add(method));
+
+    if (index === segments.length) {
+      node.handlers.forEach((_, method) => allowed.add(method));
+      return;
+    }
+
+    const segment = segments[index]!;
+    const staticChild = node.staticChildren.get(segment);
+    if (staticChild) {
+      this.collectMethods(staticChild, segments, index + 1, allowed);
+    }
+
+    const decoded = decodeSegment(segment);
+    for (const edge of node.paramChildren) {
+      if (edge.pattern && !edge.pattern.test(decoded)) continue;
+      this.collectMethods(edge.node, segments, index + 1, allowed);
+    }
+  }
+}
+
+function createNode<T>(): RouteNode<T> {
+  return {
+    staticChildren: new Map(),
+    paramChildren: [],
+    handlers: new Map(),
+  };
+}
+
+function addEntry<T>(entries: Map<string, RouteEntry<T>>, method: string, path: string, entry: RouteEntry<T>): void {
+  if (entries.has(method)) {
+    throw new Error(`Route ${method} ${path} is already defined`);
+  }
+  entries.set(method, entry);
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(segment => segment.length > 0);
+}
+
+/** Parses a route path into its segments
+ * @throws Error if a segment is malformed
+ */
+export function parseRoutePath(path: string): RouteSegment[] {
+  return splitPath(path).map((segment): RouteSegment => {
+    const param = PARAM_SEGMENT.exec(segment);
+    if (param) {
+      return { kind: "param", name: param[1]!, constraint: param[2] ?? "", optional: param[3] === "?" };
+    }
+
+    const wildcard = WILDCARD_SEGMENT.exec(segment);
+    if (wildcard) {
+      return { kind: "wildcard", name: wildcard[1] || "*" };
+    }
+
+    if (segment.startsWith(":") || segment.includes("*")) {
+      throw new Error(`Invalid route ${path}: malformed segment "${segment}"`);
+    }
+
+    return { kind: "static", value: segment };
+  });
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * File and stream responses tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LoggerFactory } from "../logger";
+import { BunApiServer } from "./bun-api-server";
+import { createFileResponse } from "./send-file";
+
+const PORT = 39407;
+const BASE_URL = `http://localhost:${PORT}`;
+const FILE_PATH = join(tmpdir(), `send-file-test-${process.pid}.txt`);
+const CONTENT = "0123456789";
+
+beforeAll(async () => {
+  await Bun.write(FILE_PATH, CONTENT);
+});
+
+afterAll(async () => {
+  await rm(FILE_PATH, { force: true });
+});
+
+describe("createFileResponse", () => {
+  it("should send the whole file with its validators", async () => {
+    const file = await createFileResponse(new Headers(), FILE_PATH, { maxAgeSeconds: 60, download: "report.txt" });
+
+    expect(file!.status).toBe(200);
+    expect(await file!.body!.text()).toBe(CONTENT);
+    expect(file!.headers).toMatchObject({
+      "accept-ranges": "bytes",
+      "cache-control": "public, max-age=60",
+      "content-disposition": "attachment; filename*=UTF-8''report.txt",
+    });
+    expect(file!.headers.etag).toStartWith('W/"');
+  });
+
+  it("should answer 304 when the client has the current version", async () => {
+    const { headers } = (await createFileResponse(new Headers(), FILE_PATH))!;
+    const file = await createFileResponse(new Headers({ "if-none-match": headers.etag! }), FILE_PATH);
+
+    expect(file).toMatchObject({ status: 304, body: null });
+  });
+
+  it("should send the requested range", async () => {
+    const range = await createFileResponse(new Headers({ range: "bytes=2-4" }), FILE_PATH);
+    const suffix = await createFileResponse(new Headers({ range: "bytes=-3" }), FILE_PATH);
+
+    expect(range!.status).toBe(206);
+    expect(range!.headers["content-range"]).toBe("bytes 2-4/10");
+    expect(await range!.body!.text()).toBe("234");
+    expect(await suffix!.body!.text()).toBe("789");
+  });
+
+  it("should answer 416 to a range past the end of the file", async () => {
+    const file = await createFileResponse(new Headers({ range: "bytes=20-" }), FILE_PATH);
+
+    expect(file!.status).toBe(416);
+    expect(file!.headers["content-range"]).toBe("bytes */10");
+  });
+
+  it("should ignore the range when If-Range doesn't match the current version", async () => {
+    const file = await createFileResponse(new Headers({ range: "bytes=2-4", "if-range": 'W/"old"' }), FILE_PATH);
+
+    expect(file!.status).toBe(200);
+  });
+
+  it("should return undefined for a missing file", async () => {
+    expect(await createFileResponse(new Headers(), `${FILE_PATH}.missing`)).toBeUndefined();
+  });
+});
+
+describe("BunApiServer file and stream responses", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, PORT);
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    server.defineGetRoute("/file", async (_req, res) => {
+      await res.sendFile(FILE_PATH, { contentType: "text/plain" });
+    });
+    server.defineGetRoute("/missing", async (_req, res) => {
+      await res.sendFile(`${FILE_PATH}.missing`);
+    });
+    server.defineGetRoute("/lines", (_req, res) => {
+      res.stream((async function* () {
+        yield "first\n";
+        yield new TextEncoder().encode("second\n");
+      })(), "text/plain");
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("should send a file range", async () => {
+    const response = await fetch(`${BASE_URL}/file`, { headers: { range: "bytes=0-1" } });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get("content-type")).toBe("text/plain");
+    expect(await response.text()).toBe("01");
+  });
+
+  it("should answer 404 for a missing file", async () => {
+    expect((await fetch(`${BASE_URL}/missing`)).status).toBe(404);
+  });
+
+  it("should stream the chunks of an async iterable", async () => {
+    const response = await fetch(`${BASE_URL}/lines`);
+
+    expect(response.headers.get("content-type")).toBe("text/plain");
+    expect(await response.text()).toBe("first\nsecond\n");
+  });
+});
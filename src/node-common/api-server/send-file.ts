@@ -0,0 +1,107 @@
+import { basename } from "path";
+import { isNotModified } from "./conditional-get";
+
+/** Options of `res.sendFile` */
+export interface SendFileOptions {
+  /** @default the type inferred from the file extension */
+  contentType?: string;
+  /** Cache-Control max-age in seconds */
+  maxAgeSeconds?: number;
+  /** If set, the file is sent as an attachment with this file name (`true` uses the file name) */
+  download?: boolean | string;
+}
+
+/** Status, headers and body of a file response */
+export interface FileResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Blob | null;
+}
+
+/**
+ * Builds the response for a file, honoring conditional (`If-None-Match`, `If-Modified-Since`)
+ * and single range (`Range`, `If-Range`) request headers.
+ * Returns undefined if the file doesn't exist.
+ */
+export async function createFileResponse(
+  requestHeaders: Headers,
+  path: string,
+  options: SendFileOptions = {}
+): Promise<FileResponse | undefined> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) {
+    return undefined;
+  }
+
+  const size = file.size;
+  const lastModified = new Date(file.lastModified);
+  lastModified.setMilliseconds(0);
+  const etag = `W/"${size.toString(16)}-${Math.floor(file.lastModified).toString(16)}"`;
+
+  const headers: Record<string, string> = {
+    'content-type': options.contentType ?? file.type,
+    'accept-ranges': 'bytes',
+    'etag': etag,
+    'last-modified': lastModified.toUTCString(),
+  };
+  if (options.maxAgeSeconds !== undefined) {
+    headers['cache-control'] = `public, max-age=${options.maxAgeSeconds}`;
+  }
+  if (options.download) {
+    const fileName = typeof options.download === 'string' ? options.download : basename(path);
+    headers['content-disposition'] = `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+  }
+
+  if (isNotModified(requestHeaders, etag, headers['last-modified']!)) {
+    return { status: 304, headers, body: null };
+  }
+
+  const range = requestHeaders.get('range');
+  const ifRange = requestHeaders.get('if-range');
+  const rangeApplies = range && (!ifRange || ifRange === etag || ifRange === headers['last-modified']);
+  if (rangeApplies) {
+    const parsed = parseRange(range, size);
+    if (parsed === "unsatisfiable") {
+      return { status: 416, headers: { ...headers, 'content-range': `bytes */${size}` }, body: null };
+    }
+    if (parsed) {
+      const [start, end] = parsed;
+      return {
+        status: 206,
+        headers: { ...headers, 'content-range': `bytes ${start}-${end}/${size}` },
+        body: file.slice(start, end + 1),
+      };
+    }
+  }
+
+  return { status: 200, headers, body: file };
+}
+
+/**
+ * Parses a single `bytes=` range. Multiple ranges are not supported and result in the full content.
+ * @returns the inclusive [start, end] range, "unsatisfiable", or undefined to ignore the header
+ */
+function parseRange(header: string, size: number): [number, number] | "unsatisfiable" | undefined {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0) return "unsatisfiable";
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return "unsatisfiable";
+  }
+  return [start, end];
+}
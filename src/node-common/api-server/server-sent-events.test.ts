@@ -0,0 +1,83 @@
+/**
+ * Server-Sent Events tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { BunApiServer } from "./bun-api-server";
+import { createSseStream } from "./server-sent-events";
+
+const PORT = 39408;
+
+/** Reads the stream until it ends */
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe("createSseStream", () => {
+  it("should format the events, the comments and the retry delay", async () => {
+    const { stream, writer } = createSseStream(undefined, undefined, { heartbeatIntervalMs: 0, retryMs: 3000 });
+
+    writer.send({ data: "multi\nline", event: "note", id: "1" });
+    writer.send({ data: { orderId: 42 } });
+    writer.comment("ping");
+    writer.close();
+
+    expect(await readAll(stream)).toBe(
+      "retry: 3000\n\n" +
+      "id: 1\nevent: note\ndata: multi\ndata: line\n\n" +
+      "data: {\"orderId\":42}\n\n" +
+      ": ping\n\n"
+    );
+  });
+
+  it("should close the writer and run the close callbacks once the client disconnects", () => {
+    const abort = new AbortController();
+    const { writer } = createSseStream("7", abort.signal, { heartbeatIntervalMs: 0 });
+    let closes = 0;
+    writer.onClose(() => closes++);
+
+    abort.abort();
+
+    expect(writer.lastEventId).toBe("7");
+    expect(writer.closed).toBe(true);
+    expect(writer.send({ data: "late" })).toBe(false);
+    expect(closes).toBe(1);
+    writer.onClose(() => closes++);
+    expect(closes).toBe(2);
+  });
+
+  it("should send heartbeat comments", async () => {
+    const { stream, writer } = createSseStream(undefined, undefined, { heartbeatIntervalMs: 5 });
+
+    await Bun.sleep(20);
+    writer.close();
+
+    expect(await readAll(stream)).toContain(": heartbeat\n\n");
+  });
+});
+
+describe("BunApiServer.sse", () => {
+  it("should stream the events with the Last-Event-ID of the client", async () => {
+    const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+    const server = new BunApiServer(loggerFactory, PORT);
+    server.init([], undefined, undefined, undefined, false);
+    server.defineGetRoute("/events", (_req, res) => {
+      const writer = res.sse({ heartbeatIntervalMs: 0 });
+      const next = Number(writer.lastEventId ?? 0) + 1;
+      writer.send({ id: String(next), data: "resumed" });
+      writer.close();
+    });
+    await server.start();
+
+    try {
+      const response = await fetch(`http://localhost:${PORT}/events`, { headers: { "last-event-id": "4" } });
+
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+      expect(response.headers.get("cache-control")).toBe("no-cache");
+      expect(await response.text()).toBe("id: 5\ndata: resumed\n\n");
+    } finally {
+      await server.stop();
+    }
+  });
+});
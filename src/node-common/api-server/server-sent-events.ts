@@ -0,0 +1,140 @@
+/** Options of a Server-Sent Events stream */
+export interface SseOptions {
+  /** Interval of the heartbeat comments keeping the connection open through proxies, 0 to disable
+   * @default 15000
+   */
+  heartbeatIntervalMs?: number;
+  /** Reconnection delay suggested to the client */
+  retryMs?: number;
+}
+
+/** A single Server-Sent Event */
+export interface SseEvent {
+  /** Event payload. Non-string values are serialized as JSON */
+  data: any;
+  /** Event name, `message` when omitted */
+  event?: string;
+  /** Event id, sent back by the client as `Last-Event-ID` when it reconnects */
+  id?: string;
+  /** Reconnection delay suggested to the client */
+  retry?: number;
+}
+
+/** Writer of a Server-Sent Events stream */
+export interface SseWriter {
+  /** Id of the last event received by the client before reconnecting, used to resume the stream */
+  readonly lastEventId: string | undefined;
+  /** True once the stream is closed, either by the server or by the client */
+  readonly closed: boolean;
+  /** Sends an event. Returns false if the stream is closed */
+  send(event: SseEvent): boolean;
+  /** Sends a comment line, ignored by the client */
+  comment(text: string): boolean;
+  /** Closes the stream */
+  close(): void;
+  /** Registers a callback invoked once the stream is closed, e.g. to unsubscribe from a source */
+  onClose(callback: () => void): void;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Creates the event stream and its writer. The stream is closed when the given signal aborts (client disconnect) */
+export function createSseStream(
+  lastEventId: string | undefined,
+  signal: AbortSignal | undefined,
+  options: SseOptions = {}
+): { stream: ReadableStream<Uint8Array>; writer: SseWriter } {
+  const encoder = new TextEncoder();
+  const closeCallbacks: (() => void)[] = [];
+  let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    if (heartbeat) clearInterval(heartbeat);
+    signal?.removeEventListener("abort", cleanup);
+    for (const callback of closeCallbacks) {
+      try {
+        callback();
+      } catch {
+        // A failing callback must not prevent the others from running
+      }
+    }
+  };
+
+  const write = (chunk: string): boolean => {
+    if (closed || !controller) return false;
+    try {
+      controller.enqueue(encoder.encode(chunk));
+      return true;
+    } catch {
+      cleanup();
+      return false;
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      if (options.retryMs !== undefined) {
+        write(`retry: ${options.retryMs}\n\n`);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  const writer: SseWriter = {
+    lastEventId,
+    get closed() { return closed; },
+    send: (event: SseEvent) => write(formatEvent(event)),
+    comment: (text: string) => write(`: ${text.replace(/\r?\n/g, " ")}\n\n`),
+    close: () => {
+      if (closed) return;
+      const streamController = controller;
+      cleanup();
+      try {
+        streamController?.close();
+      } catch {
+        // Already closed by the client
+      }
+    },
+    onClose: (callback: () => void) => {
+      if (closed) {
+        callback();
+      } else {
+        closeCallbacks.push(callback);
+      }
+    },
+  };
+
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+  if (heartbeatIntervalMs > 0) {
+    heartbeat = setInterval(() => writer.comment("heartbeat"), heartbeatIntervalMs);
+  }
+
+  if (signal?.aborted) {
+    cleanup();
+  } else {
+    signal?.addEventListener("abort", cleanup);
+  }
+
+  return { stream, writer };
+}
+
+function formatEvent(event: SseEvent): string {
+  const lines: string[] = [];
+  if (event.id !== undefined) lines.push(`id: ${event.id}`);
+  if (event.event) lines.push(`event: ${event.event}`);
+  if (event.retry !== undefined) lines.push(`retry: ${event.retry}`);
+
+  const data = typeof event.data === "string" ? event.data : JSON.stringify(event.data);
+  for (const line of data.split(/\r?\n/)) {
+    lines.push(`data: ${line}`);
+  }
+
+  return `${lines.join("\n")}\n\n`;
+}
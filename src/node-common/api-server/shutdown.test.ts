@@ -0,0 +1,88 @@
+/**
+ * Graceful shutdown tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { BunApiServer } from "./bun-api-server";
+import { waitWithTimeout } from "./shutdown";
+
+const PORT = 39409;
+const BASE_URL = `http://localhost:${PORT}`;
+
+function createServer() {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+  const server = new BunApiServer(loggerFactory, PORT);
+  server.init([], undefined, undefined, undefined, false);
+  return server;
+}
+
+describe("waitWithTimeout", () => {
+  it("should return whether the promise settled before the timeout", async () => {
+    expect(await waitWithTimeout(Bun.sleep(1), 1000)).toBe(true);
+    expect(await waitWithTimeout(new Promise(() => { }), 10)).toBe(false);
+  });
+});
+
+describe("BunApiServer shutdown", () => {
+  it("should flip the readiness, drain the in-flight requests, then run the hooks in order", async () => {
+    const server = createServer();
+    const events: string[] = [];
+    server.defineGetRoute("/slow", async (_req, res) => {
+      await Bun.sleep(100);
+      events.push("request done");
+      res.json({ ok: true });
+    });
+    server.onShutdown(() => { events.push("first hook"); });
+    server.onShutdown(() => { throw new Error("broken hook"); });
+    server.onShutdown(async () => { events.push("last hook"); });
+    await server.start();
+    expect(server.isReady()).toBe(true);
+
+    const inFlight = fetch(`${BASE_URL}/slow`);
+    await Bun.sleep(20);
+    const stopped = server.stop({ timeoutMs: 5000, preStopDelayMs: 50 });
+
+    expect(server.isReady()).toBe(false);
+    expect(server.stop()).toBe(stopped);
+    // Still served during the pre-stop delay
+    expect((await fetch(`${BASE_URL}/slow`)).status).toBe(200);
+
+    await stopped;
+    expect((await inFlight).status).toBe(200);
+    expect(events).toEqual(["request done", "request done", "first hook", "last hook"]);
+  });
+
+  it("should close the in-flight requests once the timeout expires", async () => {
+    const server = createServer();
+    server.defineGetRoute("/stuck", async (_req, res) => {
+      await Bun.sleep(5000);
+      res.json({ ok: true });
+    });
+    await server.start();
+
+    const inFlight = fetch(`${BASE_URL}/stuck`).catch(error => error);
+    await Bun.sleep(20);
+    await server.stop({ timeoutMs: 50 });
+
+    // The handler would answer after 5s, so an error means the request was closed
+    expect(await inFlight).toBeInstanceOf(Error);
+  });
+
+  it("should end the open event streams instead of waiting for the timeout", async () => {
+    const server = createServer();
+    server.defineGetRoute("/events", (_req, res) => {
+      res.sse({ heartbeatIntervalMs: 0 }).send({ data: "hello" });
+    });
+    await server.start();
+
+    const response = await fetch(`${BASE_URL}/events`);
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    // An open stream would hold the shutdown past the test timeout
+    await server.stop({ timeoutMs: 60000 });
+
+    expect((await reader.read()).done).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+/** Options of the shutdown sequence of the API server */
+export interface ShutdownOptions {
+  /** Max time to wait for the in-flight requests before closing them
+   * @default 30000
+   */
+  timeoutMs?: number;
+  /** Delay between the readiness flip and the moment the server stops accepting requests.
+   * Gives load balancers (e.g. Kubernetes endpoints) time to stop routing traffic to the instance
+   * @default 0
+   */
+  preStopDelayMs?: number;
+  /** Interval of the progress logs while waiting for in-flight requests
+   * @default 5000
+   */
+  progressIntervalMs?: number;
+}
+
+/** Options of the signal based shutdown */
+export interface GracefulShutdownOptions extends ShutdownOptions {
+  /** @default ["SIGTERM", "SIGINT"] */
+  signals?: NodeJS.Signals[];
+  /** If true, the process exits once the shutdown completes (with code 1 if it failed)
+   * @default true
+   */
+  exitProcess?: boolean;
+}
+
+/** Callback run once the server is stopped, e.g. to close database or broker connections */
+export type ShutdownHook = () => Promise<void> | void;
+
+export const DEFAULT_SHUTDOWN_OPTIONS: Required<ShutdownOptions> = {
+  timeoutMs: 30000,
+  preStopDelayMs: 0,
+  progressIntervalMs: 5000,
+};
+
+/** Waits for the promise up to the timeout. Returns false if the timeout expired first */
+export async function waitWithTimeout(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise.then(() => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
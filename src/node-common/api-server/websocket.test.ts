@@ -0,0 +1,117 @@
+/**
+ * WebSocket routes tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import { schema } from "../schema";
+import { BunApiServer } from "./bun-api-server";
+import type { BunMiddleware } from "./bun-types";
+
+const PORT = 39410;
+const WS_URL = `ws://localhost:${PORT}`;
+
+/** Client collecting the received messages, `next` resolves with the next one */
+async function connect(path: string) {
+  const ws = new WebSocket(`${WS_URL}${path}`);
+  const received: any[] = [];
+  const waiters: ((message: any) => void)[] = [];
+  ws.addEventListener("message", event => {
+    const message = JSON.parse(String(event.data));
+    const waiter = waiters.shift();
+    if (waiter) waiter(message); else received.push(message);
+  });
+  await new Promise((resolve, reject) => {
+    ws.addEventListener("open", resolve);
+    ws.addEventListener("error", reject);
+  });
+
+  return {
+    send: (message: unknown) => ws.send(typeof message === "string" ? message : JSON.stringify(message)),
+    next: () => received.length > 0 ? Promise.resolve(received.shift()) : new Promise<any>(resolve => waiters.push(resolve)),
+    close: () => ws.close(),
+  };
+}
+
+describe("BunApiServer WebSocket routes", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+  const server = new BunApiServer(loggerFactory, PORT);
+
+  const authenticate: BunMiddleware = async (req, _res, next) => {
+    if (req.query.token !== "secret") {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    (req as any).user = "alice";
+    return next();
+  };
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    server.defineWebSocketRoute<{ join: { room: string }; say: { room: string; text: string } }>("/rooms/:tenant", {
+      open: connection => {
+        connection.send("welcome", { tenant: connection.request.params.tenant, user: (connection.request as any).user });
+      },
+      messages: {
+        join: (connection, { room }) => {
+          connection.join(room);
+          connection.send("joined", { room });
+        },
+        say: (connection, { room, text }) => connection.broadcast(room, "said", { text }),
+      },
+    }, {
+      middlewares: [authenticate],
+      messageSchemas: { join: schema.object({ room: schema.string() }) },
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("should reject the upgrade in a middleware, and plain requests with 426", async () => {
+    expect((await fetch(`http://localhost:${PORT}/rooms/acme`)).status).toBe(401);
+    expect((await fetch(`http://localhost:${PORT}/rooms/acme?token=secret`)).status).toBe(426);
+  });
+
+  it("should open the connection with the upgrade request and its middleware properties", async () => {
+    const client = await connect("/rooms/acme?token=secret");
+
+    expect(await client.next()).toEqual({ type: "welcome", payload: { tenant: "acme", user: "alice" } });
+    client.close();
+  });
+
+  it("should answer the invalid, unknown and malformed messages with an error message", async () => {
+    const client = await connect("/rooms/acme?token=secret");
+    await client.next();
+
+    client.send({ type: "join", payload: { room: 42 } });
+    expect(await client.next()).toMatchObject({ type: "error", payload: { type: "join", message: "Invalid message payload" } });
+    client.send({ type: "dance" });
+    expect(await client.next()).toEqual({ type: "error", payload: { message: "Unknown message type 'dance'" } });
+    client.send({ type: "constructor" });
+    expect(await client.next()).toEqual({ type: "error", payload: { message: "Unknown message type 'constructor'" } });
+    client.send("not json");
+    expect((await client.next()).type).toBe("error");
+    client.close();
+  });
+
+  it("should broadcast to the other connections of a room, and publish to all of them", async () => {
+    const [alice, bob] = [await connect("/rooms/acme?token=secret"), await connect("/rooms/acme?token=secret")];
+    for (const client of [alice, bob]) {
+      await client.next();
+      client.send({ type: "join", payload: { room: "lobby" } });
+      await client.next();
+    }
+
+    alice.send({ type: "say", payload: { room: "lobby", text: "hi" } });
+    expect(await bob.next()).toEqual({ type: "said", payload: { text: "hi" } });
+
+    server.publish("lobby", "announcement", { text: "closing soon" });
+    expect(await alice.next()).toEqual({ type: "announcement", payload: { text: "closing soon" } });
+    expect(await bob.next()).toEqual({ type: "announcement", payload: { text: "closing soon" } });
+
+    alice.close();
+    bob.close();
+  });
+});
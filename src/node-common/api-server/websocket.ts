@@ -0,0 +1,247 @@
+import type { ServerWebSocket, WebSocketHandler } from "bun";
+import type { ScopedLogger, TraceContext } from "../logger";
+import type { SchemaBase } from "../schema";
+import type { BunApiServerRequest, BunMiddleware } from "./bun-types";
+
+/** Type of the message sent back when an incoming message can't be handled */
+export const WEBSOCKET_ERROR_MESSAGE_TYPE = "error";
+
+/** Close code sent to the clients when the server stops */
+export const WEBSOCKET_GOING_AWAY = 1001;
+
+const DEFAULT_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/** JSON envelope of the messages exchanged on a WebSocket route */
+export interface WebSocketMessage<TType extends string = string, TPayload = any> {
+  type: TType;
+  payload?: TPayload;
+}
+
+/** Result of a send: `backpressure` means the message is queued but the client is slow, `dropped` that it wasn't sent */
+export type WebSocketSendStatus = "sent" | "backpressure" | "dropped";
+
+/** Message payload types by message type */
+export type WebSocketMessageMap = { [type: string]: any };
+
+export interface WebSocketConnection<TState = { [key: string]: any }> {
+  readonly id: string;
+  /** The upgrade request, including params, query and the properties set by the upgrade middlewares (e.g. `user`) */
+  readonly request: BunApiServerRequest;
+  /** Per-connection state */
+  state: TState;
+  /** Logger bound to the trace context of the connection */
+  readonly log: ScopedLogger;
+  /** Rooms joined by the connection */
+  readonly rooms: string[];
+  /** Bytes queued but not yet sent to the client */
+  readonly bufferedAmount: number;
+  /** Sends a `{ type, payload }` JSON message */
+  send(type: string, payload?: any): WebSocketSendStatus;
+  /** Sends a message as is */
+  sendRaw(data: string | Uint8Array): WebSocketSendStatus;
+  join(room: string): void;
+  leave(room: string): void;
+  /** Sends a message to every connection in the room except this one */
+  broadcast(room: string, type: string, payload?: any): void;
+  /** Resolves once the queued messages are flushed, use it to pace large transfers */
+  drained(): Promise<void>;
+  close(code?: number, reason?: string): void;
+}
+
+export type WebSocketMessageHandlers<TMessages extends WebSocketMessageMap, TState> = {
+  [K in keyof TMessages]?: (connection: WebSocketConnection<TState>, payload: TMessages[K]) => void | Promise<void>;
+};
+
+export interface WebSocketHandlers<TMessages extends WebSocketMessageMap = WebSocketMessageMap, TState = { [key: string]: any }> {
+  open?(connection: WebSocketConnection<TState>): void | Promise<void>;
+  /** Handlers of the JSON messages, by message type */
+  messages?: WebSocketMessageHandlers<TMessages, TState>;
+  /** Receives the messages that are not JSON envelopes or have no handler in `messages` */
+  message?(connection: WebSocketConnection<TState>, data: string | Buffer): void | Promise<void>;
+  close?(connection: WebSocketConnection<TState>, code: number, reason: string): void | Promise<void>;
+  /** Called when the queued messages of a slow client are flushed */
+  drain?(connection: WebSocketConnection<TState>): void | Promise<void>;
+}
+
+export interface WebSocketRouteOptions<TMessages extends WebSocketMessageMap = WebSocketMessageMap> {
+  /** Middlewares run on the upgrade request, after the global ones. A middleware can reject the upgrade by responding */
+  middlewares?: BunMiddleware[];
+  /** Schemas validating the message payloads, by message type. Invalid messages are answered with an `error` message */
+  messageSchemas?: { [K in keyof TMessages]?: SchemaBase<TMessages[K]> };
+  /** Messages are dropped while the connection has more than this amount of bytes queued
+   * @default 1 MB
+   */
+  maxBufferedBytes?: number;
+}
+
+export interface WebSocketRouteDefinition {
+  path: string;
+  handlers: WebSocketHandlers<any, any>;
+  options: WebSocketRouteOptions<any>;
+}
+
+/** Data attached to each Bun WebSocket */
+export interface WebSocketConnectionData {
+  id: string;
+  route: WebSocketRouteDefinition;
+  request: BunApiServerRequest;
+  traceContext: TraceContext;
+  log: ScopedLogger;
+  connection?: BunWebSocketConnection;
+}
+
+export class BunWebSocketConnection<TState = { [key: string]: any }> implements WebSocketConnection<TState> {
+  state = {} as TState;
+  private readonly joinedRooms = new Set<string>();
+  private drainWaiters: (() => void)[] = [];
+
+  constructor(private readonly ws: ServerWebSocket<WebSocketConnectionData>) { }
+
+  get id() { return this.ws.data.id; }
+  get request() { return this.ws.data.request; }
+  get log() { return this.ws.data.log; }
+  get rooms() { return [...this.joinedRooms]; }
+  get bufferedAmount() { return this.ws.getBufferedAmount(); }
+
+  send = (type: string, payload?: any): WebSocketSendStatus => {
+    return this.sendRaw(JSON.stringify({ type, payload }));
+  };
+
+  sendRaw = (data: string | Uint8Array): WebSocketSendStatus => {
+    const maxBufferedBytes = this.ws.data.route.options.maxBufferedBytes ?? DEFAULT_MAX_BUFFERED_BYTES;
+    if (this.ws.getBufferedAmount() > maxBufferedBytes) {
+      return "dropped";
+    }
+    return toSendStatus(this.ws.send(data));
+  };
+
+  join = (room: string) => {
+    this.ws.subscribe(room);
+    this.joinedRooms.add(room);
+  };
+
+  leave = (room: string) => {
+    this.ws.unsubscribe(room);
+    this.joinedRooms.delete(room);
+  };
+
+  broadcast = (room: string, type: string, payload?: any) => {
+    this.ws.publish(room, JSON.stringify({ type, payload }));
+  };
+
+  drained = (): Promise<void> => {
+    if (this.ws.getBufferedAmount() === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.drainWaiters.push(resolve));
+  };
+
+  close = (code?: number, reason?: string) => {
+    this.ws.close(code, reason);
+  };
+
+  /** Resolves the pending `drained()` promises */
+  notifyDrained() {
+    const waiters = this.drainWaiters;
+    this.drainWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+/**
+ * Creates the Bun WebSocket handler dispatching the events to the handlers of the route of each connection.
+ * Every event runs within the trace context captured at upgrade time.
+ */
+export function createWebSocketHandler(
+  runWithContext: <T>(context: TraceContext, fn: () => T) => T,
+  connections: Set<BunWebSocketConnection>
+): WebSocketHandler<WebSocketConnectionData> {
+  const run = (ws: ServerWebSocket<WebSocketConnectionData>, event: string, fn: (connection: BunWebSocketConnection) => unknown) => {
+    return runWithContext(ws.data.traceContext, async () => {
+      const connection = ws.data.connection!;
+      try {
+        await fn(connection);
+      } catch (error) {
+        connection.log.error(`WebSocket ${event} handler failed`, error as Error, { path: ws.data.route.path });
+        if (event === "message") {
+          connection.send(WEBSOCKET_ERROR_MESSAGE_TYPE, { message: "Message handling failed" });
+        }
+      }
+    });
+  };
+
+  return {
+    open(ws) {
+      const connection = new BunWebSocketConnection(ws);
+      ws.data.connection = connection;
+      connections.add(connection);
+      return run(ws, "open", conn => ws.data.route.handlers.open?.(conn));
+    },
+
+    message(ws, data) {
+      return run(ws, "message", conn => dispatchMessage(conn, ws.data.route, data));
+    },
+
+    close(ws, code, reason) {
+      const connection = ws.data.connection!;
+      connections.delete(connection);
+      connection.notifyDrained();
+      return run(ws, "close", conn => ws.data.route.handlers.close?.(conn, code, reason));
+    },
+
+    drain(ws) {
+      ws.data.connection!.notifyDrained();
+      return run(ws, "drain", conn => ws.data.route.handlers.drain?.(conn));
+    },
+  };
+}
+
+async function dispatchMessage(connection: BunWebSocketConnection, route: WebSocketRouteDefinition, data: string | Buffer) {
+  const envelope = typeof data === "string" ? parseEnvelope(data) : undefined;
+  const messages = route.handlers.messages;
+  // Own properties only, so types like `constructor` or `toString` don't resolve to the Object.prototype members
+  const handler = envelope && messages && Object.hasOwn(messages, envelope.type) ? messages[envelope.type] : undefined;
+
+  if (!envelope || !handler) {
+    if (route.handlers.message) {
+      await route.handlers.message(connection, data);
+    } else {
+      connection.send(WEBSOCKET_ERROR_MESSAGE_TYPE, {
+        message: envelope ? `Unknown message type '${envelope.type}'` : "Invalid message, expected a JSON { type, payload } object",
+      });
+    }
+    return;
+  }
+
+  let payload = envelope.payload;
+  const schemas = route.options.messageSchemas;
+  const schema = schemas && Object.hasOwn(schemas, envelope.type) ? schemas[envelope.type] : undefined;
+  if (schema) {
+    const result = schema.parse(payload);
+    if (!result.success) {
+      connection.send(WEBSOCKET_ERROR_MESSAGE_TYPE, {
+        type: envelope.type,
+        message: "Invalid message payload",
+        errors: result.issues,
+      });
+      return;
+    }
+    payload = result.value;
+  }
+
+  await handler(connection, payload);
+}
+
+function parseEnvelope(data: string): WebSocketMessage | undefined {
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message === "object" && typeof message.type === "string" ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toSendStatus(status: number): WebSocketSendStatus {
+  if (status > 0) return "sent";
+  return status === -1 ? "backpressure" : "dropped";
+}
@@ -0,0 +1,58 @@
+import type { Sequelize } from "sequelize";
+import type { JobScheduler } from "../job-scheduler";
+import type { RabbitMqClient } from "../rabbit-mq";
+import type { HealthCheck, HealthCheckOptions } from "./models";
+
+/** Checks the database connection by running `authenticate()` */
+export function sequelizeHealthCheck(sequelize: Sequelize, options: HealthCheckOptions = {}): HealthCheck {
+  return {
+    name: "database",
+    ...options,
+    check: async () => {
+      await sequelize.authenticate({ logging: false });
+    },
+  };
+}
+
+/** Checks that the RabbitMQ client is connected and not reconnecting */
+export function rabbitMqHealthCheck(client: RabbitMqClient, options: HealthCheckOptions = {}): HealthCheck {
+  return {
+    name: "rabbitmq",
+    ...options,
+    check: () => client.isConnected() ? "up" : "down",
+  };
+}
+
+export interface JobSchedulerHealthCheckOptions extends HealthCheckOptions {
+  /** A job failing this many times in a row is reported as failing
+   * @default 3
+   */
+  maxConsecutiveFailures?: number;
+}
+
+/** Checks that the scheduled jobs are running and not failing repeatedly */
+export function jobSchedulerHealthCheck(scheduler: JobScheduler, options: JobSchedulerHealthCheckOptions = {}): HealthCheck {
+  const { maxConsecutiveFailures = 3, ...checkOptions } = options;
+
+  return {
+    name: "jobs",
+    // Failing jobs don't prevent the service from handling requests
+    critical: false,
+    ...checkOptions,
+    check: () => {
+      const jobs = scheduler.getJobStatuses();
+      const failing = jobs.filter(job => !job.running || job.consecutiveFailures >= maxConsecutiveFailures);
+
+      return {
+        status: failing.length > 0 ? "down" : "up",
+        details: Object.fromEntries(jobs.map(job => [job.name, {
+          running: job.running,
+          lastRunAt: job.lastRunAt?.toISOString(),
+          lastSuccessAt: job.lastSuccessAt?.toISOString(),
+          consecutiveFailures: job.consecutiveFailures,
+          ...(job.lastError ? { lastError: job.lastError } : {}),
+        }])),
+      };
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Health check registry tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { HealthCheckRegistry } from "./health-check-registry";
+
+describe("HealthCheckRegistry", () => {
+  it("should aggregate critical and non-critical failures", async () => {
+    const registry = new HealthCheckRegistry({ defaultCacheMs: 0 })
+      .register({ name: "database", check: () => undefined })
+      .register({ name: "cache", critical: false, check: () => { throw new Error("Connection refused"); } });
+
+    const report = await registry.run("readiness");
+
+    expect(report.status).toBe("degraded");
+    expect(report.checks["database"]?.status).toBe("up");
+    expect(report.checks["cache"]).toMatchObject({ status: "down", critical: false, error: "Connection refused" });
+
+    registry.register({ name: "broker", check: () => "down" });
+    expect((await registry.run("readiness")).status).toBe("down");
+  });
+
+  it("should fail checks exceeding their timeout", async () => {
+    const registry = new HealthCheckRegistry()
+      .register({ name: "slow", timeoutMs: 20, check: () => Bun.sleep(200) });
+
+    const report = await registry.run("readiness");
+
+    expect(report.checks["slow"]).toMatchObject({ status: "down", error: "Timed out after 20ms" });
+  });
+
+  it("should cache results and only run the checks of the requested type", async () => {
+    let runs = 0;
+    const registry = new HealthCheckRegistry({ defaultCacheMs: 1000 })
+      .register({ name: "database", check: () => { runs++; } })
+      .register({ name: "event-loop", type: "liveness", check: () => "up" });
+
+    await registry.run("readiness");
+    const report = await registry.run("readiness");
+
+    expect(runs).toBe(1);
+    expect(report.checks["database"]?.cached).toBe(true);
+    expect(Object.keys(report.checks)).toEqual(["database"]);
+  });
+});
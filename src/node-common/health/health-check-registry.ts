@@ -0,0 +1,116 @@
+import type {
+  HealthCheck,
+  HealthCheckOutcome,
+  HealthCheckRegistryOptions,
+  HealthCheckReport,
+  HealthCheckType,
+  HealthReport,
+  HealthStatus,
+} from "./models";
+
+const DEFAULT_TIMEOUT_MS = 3000;
+const DEFAULT_CACHE_MS = 5000;
+
+/** Runs the registered health checks and aggregates them into a report */
+export class HealthCheckRegistry {
+  private readonly checks = new Map<string, HealthCheck>();
+  private readonly cache = new Map<string, { report: HealthCheckReport; expiresAt: number }>();
+  private readonly running = new Map<string, Promise<HealthCheckReport>>();
+  private readonly defaultTimeoutMs: number;
+  private readonly defaultCacheMs: number;
+
+  constructor(options: HealthCheckRegistryOptions = {}) {
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.defaultCacheMs = options.defaultCacheMs ?? DEFAULT_CACHE_MS;
+  }
+
+  /** Registers a check
+   * @throws Error if a check with the same name is already registered
+   */
+  register(check: HealthCheck): this {
+    if (this.checks.has(check.name)) {
+      throw new Error(`Health check '${check.name}' is already registered`);
+    }
+    this.checks.set(check.name, check);
+    return this;
+  }
+
+  /** Runs the checks of the given type concurrently and aggregates their results */
+  async run(type: HealthCheckType): Promise<HealthReport> {
+    const checks = [...this.checks.values()].filter(check => (check.type ?? "readiness") === type);
+    const reports = await Promise.all(checks.map(check => this.runCheck(check)));
+
+    const result: HealthReport = { status: "up", checkedAt: new Date().toISOString(), checks: {} };
+    checks.forEach((check, index) => {
+      result.checks[check.name] = reports[index]!;
+    });
+    result.status = aggregateStatus(Object.values(result.checks));
+    return result;
+  }
+
+  private runCheck(check: HealthCheck): Promise<HealthCheckReport> {
+    const cached = this.cache.get(check.name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve({ ...cached.report, cached: true });
+    }
+
+    // Concurrent probes share the same execution
+    let running = this.running.get(check.name);
+    if (!running) {
+      running = this.executeCheck(check).finally(() => this.running.delete(check.name));
+      this.running.set(check.name, running);
+    }
+    return running;
+  }
+
+  private async executeCheck(check: HealthCheck): Promise<HealthCheckReport> {
+    const timeoutMs = check.timeoutMs ?? this.defaultTimeoutMs;
+    const critical = check.critical ?? true;
+    const checkedAt = new Date().toISOString();
+    const start = performance.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    let report: HealthCheckReport;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      });
+      const outcome = await Promise.race([Promise.resolve().then(() => check.check()), timeout]);
+      report = { ...toStatus(outcome), critical, latencyMs: elapsed(start), checkedAt, cached: false };
+    } catch (error) {
+      report = {
+        status: "down",
+        critical,
+        latencyMs: elapsed(start),
+        checkedAt,
+        cached: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const cacheMs = check.cacheMs ?? this.defaultCacheMs;
+    if (cacheMs > 0) {
+      this.cache.set(check.name, { report, expiresAt: Date.now() + cacheMs });
+    }
+    return report;
+  }
+}
+
+function toStatus(outcome: HealthCheckOutcome): { status: HealthStatus; details?: { [key: string]: any } } {
+  if (!outcome) return { status: "up" };
+  if (typeof outcome === "string") return { status: outcome };
+  return outcome.details ? { status: outcome.status, details: outcome.details } : { status: outcome.status };
+}
+
+/** The service is down if a critical check is down, degraded if any other check is not up */
+function aggregateStatus(reports: HealthCheckReport[]): HealthStatus {
+  if (reports.some(report => report.critical && report.status === "down")) return "down";
+  if (reports.some(report => report.status !== "up")) return "degraded";
+  return "up";
+}
+
+function elapsed(start: number): number {
+  return Math.round(performance.now() - start);
+}
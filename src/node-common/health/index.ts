@@ -0,0 +1,3 @@
+export * from "./checks";
+export * from "./health-check-registry";
+export * from "./models";
@@ -0,0 +1,53 @@
+/** Status of a check or of the whole service. `degraded` means a non-critical dependency is failing */
+export type HealthStatus = "up" | "degraded" | "down";
+
+/** `liveness` checks tell whether the process must be restarted, `readiness` checks whether it can receive traffic */
+export type HealthCheckType = "liveness" | "readiness";
+
+/** Value returned by a check. Returning nothing means `up`, throwing means `down` */
+export type HealthCheckOutcome = HealthStatus | { status: HealthStatus; details?: { [key: string]: any } } | void;
+
+export interface HealthCheck {
+  /** Unique name, used as key in the report */
+  name: string;
+  check(): Promise<HealthCheckOutcome> | HealthCheckOutcome;
+  /** @default "readiness" */
+  type?: HealthCheckType;
+  /** If false, a failing check makes the service `degraded` instead of `down`
+   * @default true
+   */
+  critical?: boolean;
+  /** Time after which the check is considered failed. Defaults to the registry setting */
+  timeoutMs?: number;
+  /** Time the result is reused for, so frequent probes don't hammer the dependencies. Defaults to the registry setting */
+  cacheMs?: number;
+}
+
+/** Options shared by the built-in checks */
+export type HealthCheckOptions = Partial<Pick<HealthCheck, "name" | "type" | "critical" | "timeoutMs" | "cacheMs">>;
+
+export interface HealthCheckRegistryOptions {
+  /** @default 3000 */
+  defaultTimeoutMs?: number;
+  /** @default 5000 */
+  defaultCacheMs?: number;
+}
+
+/** Result of a single check in the report */
+export interface HealthCheckReport {
+  status: HealthStatus;
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: string;
+  /** True if the result comes from the cache */
+  cached: boolean;
+  details?: { [key: string]: any };
+  error?: string;
+}
+
+/** Aggregated health report */
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  checks: { [name: string]: HealthCheckReport };
+}
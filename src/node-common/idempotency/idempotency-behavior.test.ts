@@ -0,0 +1,77 @@
+/**
+ * Idempotency behavior tests
+ */
+
+import { afterAll, describe, expect, it } from "bun:test";
+import { ActionResponse, runActionPipeline, type ActionExecutionContext } from "../action";
+import { idempotencyBehavior } from "./idempotency-behavior";
+import { MemoryIdempotencyStore } from "./memory-idempotency-store";
+
+const store = new MemoryIdempotencyStore();
+
+function context(request: object, key?: string, requestId = "req-1"): ActionExecutionContext {
+  const headers = new Headers(key ? { "idempotency-key": key } : {});
+  return { actionName: "PlaceOrderAction", request, requestId, headers, principal: { subject: "user-1", roles: [], scopes: [], claims: {} } };
+}
+
+describe("idempotencyBehavior", () => {
+  afterAll(() => store.close());
+
+  it("replays the first response for the retries with the same key", async () => {
+    const behavior = idempotencyBehavior({ store });
+    let executions = 0;
+    const handler = async () => new ActionResponse("req-1", 201, { orderId: ++executions });
+
+    const first = await runActionPipeline(context({ sku: "A" }, "key-1"), [behavior], handler);
+    const retry = await runActionPipeline(context({ sku: "A" }, "key-1", "req-2"), [behavior], handler);
+    const withoutKey = await runActionPipeline(context({ sku: "A" }), [behavior], handler);
+
+    expect(first.data).toEqual({ orderId: 1 });
+    expect(retry.status).toBe(201);
+    expect(retry.data).toEqual({ orderId: 1 });
+    expect(retry.requestId).toBe("req-2");
+    expect(withoutKey.data).toEqual({ orderId: 2 });
+  });
+
+  it("rejects a key reused for a different request with 422", async () => {
+    const behavior = idempotencyBehavior({ store });
+    const handler = async () => new ActionResponse("req-1", 201, { ok: true });
+
+    await runActionPipeline(context({ sku: "A" }, "key-2"), [behavior], handler);
+    const reused = await runActionPipeline(context({ sku: "B" }, "key-2"), [behavior], handler);
+
+    expect(reused.status).toBe(422);
+    expect(reused.errors?.[0]?.code).toBe("IDEMPOTENCY_KEY_REUSED");
+  });
+
+  it("rejects a retry with 409 while the first execution is running", async () => {
+    const behavior = idempotencyBehavior({ store });
+    let finish!: () => void;
+    const running = new Promise<void>(resolve => (finish = resolve));
+
+    const first = runActionPipeline(context({ sku: "A" }, "key-3"), [behavior], async () => {
+      await running;
+      return new ActionResponse("req-1", 201, { ok: true });
+    });
+    const retry = await runActionPipeline(context({ sku: "A" }, "key-3"), [behavior], async () => new ActionResponse("req-1", 201));
+    finish();
+
+    expect(retry.status).toBe(409);
+    expect(retry.errors?.[0]?.code).toBe("IDEMPOTENCY_REQUEST_IN_FLIGHT");
+    expect((await first).status).toBe(201);
+  });
+
+  it("releases the key when the action throws or fails with a server error", async () => {
+    const behavior = idempotencyBehavior({ store });
+
+    await expect(runActionPipeline(context({ sku: "A" }, "key-4"), [behavior], async () => {
+      throw new Error("boom");
+    })).rejects.toThrow("boom");
+    const serverError = await runActionPipeline(context({ sku: "A" }, "key-4"), [behavior], async () => new ActionResponse("req-1", 500));
+    const retry = await runActionPipeline(context({ sku: "A" }, "key-4"), [behavior], async () => new ActionResponse("req-1", 201, { ok: true }));
+
+    expect(serverError.status).toBe(500);
+    expect(retry.status).toBe(201);
+    expect(retry.data).toEqual({ ok: true });
+  });
+});
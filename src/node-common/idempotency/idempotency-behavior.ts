@@ -0,0 +1,77 @@
+import { ActionResponse, ResponseCodes, type ActionBehavior, type ActionExecutionContext } from "../action";
+import {
+  checkIdempotencyKey,
+  createRequestFingerprint,
+  DEFAULT_IDEMPOTENCY_HEADER,
+  DEFAULT_IDEMPOTENCY_LOCK_TTL_MS,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  getIdempotencyStoreKey,
+  IdempotencyErrorCodes,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from "./idempotency";
+import { MemoryIdempotencyStore } from "./memory-idempotency-store";
+import type { IdempotencyOptions } from "./models";
+
+/**
+ * Creates an action behavior replaying the response of the first execution for the retries with the same idempotency key,
+ * read from the action headers. Keys are scoped to the caller (`principal.subject`).
+ * A retry while the first execution is running gets a 409, a key reused for a different request gets a 422.
+ *
+ * Responses below 500 are stored, with the request id of the retry. Server errors and thrown errors release the key.
+ */
+export function idempotencyBehavior(options: IdempotencyOptions = {}): ActionBehavior {
+  const store = options.store ?? new MemoryIdempotencyStore();
+  const header = options.header ?? DEFAULT_IDEMPOTENCY_HEADER;
+  const ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+  const lockTtlMs = options.lockTtlMs ?? DEFAULT_IDEMPOTENCY_LOCK_TTL_MS;
+
+  return async (context, next) => {
+    const idempotencyKey = context.headers.get(header);
+    if (idempotencyKey === null) {
+      return options.required
+        ? errorResponse(context, ResponseCodes.BAD_REQUEST, IdempotencyErrorCodes.MISSING_KEY, `Missing ${header} header`)
+        : next();
+    }
+    if (idempotencyKey.length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return errorResponse(context, ResponseCodes.BAD_REQUEST, IdempotencyErrorCodes.INVALID_KEY,
+        `${header} must have between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+    }
+
+    const key = getIdempotencyStoreKey(options, context.principal?.subject, idempotencyKey);
+    const fingerprint = createRequestFingerprint(context.actionName, context.request);
+    const check = await checkIdempotencyKey(store, key, fingerprint, lockTtlMs);
+
+    if (check.outcome === "mismatch") {
+      return errorResponse(context, ResponseCodes.UNPROCESSABLE_ENTITY, IdempotencyErrorCodes.KEY_REUSED,
+        `${header} was already used for a different request`);
+    }
+    if (check.outcome === "in-flight") {
+      return errorResponse(context, ResponseCodes.CONFLICT, IdempotencyErrorCodes.IN_FLIGHT,
+        `A request with the same ${header} is in progress`);
+    }
+    if (check.outcome === "replay") {
+      const { data, uiMessage, errors } = JSON.parse(check.response.body);
+      return new ActionResponse(context.requestId, check.response.status, data, uiMessage, errors);
+    }
+
+    let response: ActionResponse<any>;
+    try {
+      response = await next();
+    } catch (error) {
+      await store.release(key, check.token);
+      throw error;
+    }
+
+    if (response.status >= ResponseCodes.INTERNAL_SERVER_ERROR) {
+      await store.release(key, check.token);
+    } else {
+      const { data, uiMessage, errors } = response;
+      await store.complete(key, check.token, { status: response.status, headers: {}, body: JSON.stringify({ data, uiMessage, errors }) }, ttlMs);
+    }
+    return response;
+  };
+}
+
+function errorResponse(context: ActionExecutionContext, status: number, code: string, message: string): ActionResponse<any> {
+  return new ActionResponse(context.requestId, status, undefined, message, [{ code, message }]);
+}
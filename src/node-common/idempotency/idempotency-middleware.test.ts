@@ -0,0 +1,82 @@
+/**
+ * Idempotency middleware tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { BunApiServer, type BunMiddleware } from "../api-server";
+import { LoggerFactory } from "../logger";
+import { IDEMPOTENT_REPLAYED_HEADER } from "./idempotency";
+import { idempotency } from "./idempotency-middleware";
+import { MemoryIdempotencyStore } from "./memory-idempotency-store";
+
+const PORT = 39420;
+const BASE_URL = `http://localhost:${PORT}`;
+
+function post(path: string, key: string, body: object = {}) {
+  return fetch(`${BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "idempotency-key": key },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("idempotency middleware", () => {
+  const store = new MemoryIdempotencyStore();
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "error" });
+  const server = new BunApiServer(loggerFactory, PORT);
+  let executions = 0;
+  let rejectNext = true;
+
+  const rejectOnce: BunMiddleware = async (_req, _res, next) => {
+    if (rejectNext) {
+      rejectNext = false;
+      return new Response("nope", { status: 401 });
+    }
+    return next();
+  };
+
+  beforeAll(async () => {
+    server.init([idempotency({ store })], undefined, undefined, undefined, false);
+    server.definePostRoute("/orders", (_req, res) => {
+      res.status(201).set("location", `/orders/${++executions}`).json({ orderId: executions });
+    });
+    server.definePostRoute("/guarded", (_req, res) => {
+      res.status(201).json({ orderId: ++executions });
+    }, { middlewares: [rejectOnce] });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+    store.close();
+  });
+
+  it("should replay the stored response for the retries with the same key", async () => {
+    const first = await post("/orders", "key-1", { sku: "A" });
+    const retry = await post("/orders", "key-1", { sku: "A" });
+
+    expect(first.status).toBe(201);
+    expect(first.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe("true");
+    expect(retry.headers.get("location")).toBe(first.headers.get("location"));
+    expect(await retry.json()).toEqual(await first.json());
+  });
+
+  it("should reject a key reused for a different body with 422", async () => {
+    await post("/orders", "key-2", { sku: "A" });
+    const reused = await post("/orders", "key-2", { sku: "B" });
+
+    expect(reused.status).toBe(422);
+  });
+
+  it("should release the key when a downstream middleware returns a response", async () => {
+    const rejected = await post("/guarded", "key-3");
+    const retry = await post("/guarded", "key-3");
+
+    expect(rejected.status).toBe(401);
+    expect(await rejected.text()).toBe("nope");
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { ApiServerConstants, BadRequestError, ConflictError, HttpError, type BunMiddleware } from "../api-server";
+import {
+  checkIdempotencyKey,
+  createRequestFingerprint,
+  DEFAULT_IDEMPOTENCY_HEADER,
+  DEFAULT_IDEMPOTENCY_LOCK_TTL_MS,
+  DEFAULT_IDEMPOTENCY_TTL_MS,
+  getIdempotencyStoreKey,
+  IDEMPOTENT_REPLAYED_HEADER,
+  IdempotencyErrorCodes,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from "./idempotency";
+import { MemoryIdempotencyStore } from "./memory-idempotency-store";
+import type { IdempotencyMiddlewareOptions } from "./models";
+
+/**
+ * Creates a middleware replaying the response of the first request for the retries with the same idempotency key.
+ * Keys are scoped to the authenticated user (`req.user.sub`). A retry while the first request is running gets a 409,
+ * a key reused for a different method, path or body gets a 422.
+ *
+ * Only text responses below 500 built with `res` are stored. Server errors, thrown errors, streamed responses and
+ * responses returned downstream release the key, so the retry executes the request again.
+ */
+export function idempotency(options: IdempotencyMiddlewareOptions = {}): BunMiddleware {
+  const store = options.store ?? new MemoryIdempotencyStore();
+  const header = options.header ?? DEFAULT_IDEMPOTENCY_HEADER;
+  const methods = (options.methods ?? ["POST", "PATCH"]).map(method => method.toUpperCase());
+  const ttlMs = options.ttlMs ?? DEFAULT_IDEMPOTENCY_TTL_MS;
+  const lockTtlMs = options.lockTtlMs ?? DEFAULT_IDEMPOTENCY_LOCK_TTL_MS;
+
+  return async (req, res, next) => {
+    if (!methods.includes(req.method.toUpperCase())) {
+      return next();
+    }
+
+    const idempotencyKey = req.get(header);
+    if (idempotencyKey === undefined) {
+      if (options.required) {
+        throw new BadRequestError(`Missing ${header} header`, { code: IdempotencyErrorCodes.MISSING_KEY });
+      }
+      return next();
+    }
+    if (idempotencyKey.length === 0 || idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new BadRequestError(
+        `${header} must have between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+        { code: IdempotencyErrorCodes.INVALID_KEY }
+      );
+    }
+
+    const key = getIdempotencyStoreKey(options, req.user?.sub, idempotencyKey);
+    const fingerprint = createRequestFingerprint(req.method.toUpperCase(), req.path, req.body);
+    const check = await checkIdempotencyKey(store, key, fingerprint, lockTtlMs);
+
+    if (check.outcome === "mismatch") {
+      throw new HttpError(
+        ApiServerConstants.UNPROCESSABLE_ENTITY,
+        `${header} was already used for a different request`,
+        { code: IdempotencyErrorCodes.KEY_REUSED }
+      );
+    }
+    if (check.outcome === "in-flight") {
+      throw new ConflictError(
+        `A request with the same ${header} is in progress`,
+        { code: IdempotencyErrorCodes.IN_FLIGHT }
+      );
+    }
+    if (check.outcome === "replay") {
+      res.status(check.response.status);
+      for (const [name, value] of Object.entries(check.response.headers)) {
+        res.set(name, value);
+      }
+      res.set(IDEMPOTENT_REPLAYED_HEADER, "true").send(check.response.body);
+      return;
+    }
+
+    // Only the headers set downstream belong to the stored response, e.g. not the rate limit headers
+    const headersBefore = new Map(res._getResponse().headers);
+    let output: void | Response;
+    try {
+      output = await next();
+    } catch (error) {
+      await store.release(key, check.token);
+      throw error;
+    }
+
+    // A Response returned downstream replaces the one built with `res`, and is not stored
+    const body = res._getBody();
+    if (output instanceof Response || typeof body !== "string" || res.statusCode >= ApiServerConstants.INTERNAL_SERVER_ERROR) {
+      await store.release(key, check.token);
+      return output;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of res._getResponse().headers) {
+      if (headersBefore.get(name) !== value) {
+        headers[name] = value;
+      }
+    }
+    await store.complete(key, check.token, { status: res.statusCode, headers, body }, ttlMs);
+  };
+}
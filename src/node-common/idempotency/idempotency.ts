@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import { UUID } from "../uuid";
+import type { IdempotencyCheck, IdempotencyOptions, IdempotencyStore } from "./models";
+
+export const DEFAULT_IDEMPOTENCY_HEADER = "idempotency-key";
+/** Header set on replayed responses */
+export const IDEMPOTENT_REPLAYED_HEADER = "idempotent-replayed";
+
+export const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_IDEMPOTENCY_LOCK_TTL_MS = 60000;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/** Error codes of the rejected requests */
+export const IdempotencyErrorCodes = {
+  MISSING_KEY: "IDEMPOTENCY_KEY_MISSING",
+  INVALID_KEY: "IDEMPOTENCY_KEY_INVALID",
+  IN_FLIGHT: "IDEMPOTENCY_REQUEST_IN_FLIGHT",
+  KEY_REUSED: "IDEMPOTENCY_KEY_REUSED",
+} as const;
+
+/** Builds the store key of an idempotency key, scoped to the caller */
+export function getIdempotencyStoreKey(options: IdempotencyOptions, principal: string | undefined, key: string): string {
+  return `${options.prefix ?? "idempotency"}:${principal ?? "anonymous"}:${key}`;
+}
+
+/** Hashes the parts identifying a request, to detect keys reused for a different request */
+export function createRequestFingerprint(...parts: unknown[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(typeof part === "string" ? part : JSON.stringify(part) ?? "");
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+/** Reserves the key, or tells how to answer a request reusing it */
+export async function checkIdempotencyKey(
+  store: IdempotencyStore,
+  key: string,
+  fingerprint: string,
+  lockTtlMs: number
+): Promise<IdempotencyCheck> {
+  const token = UUID.getV4();
+  const record = await store.begin(key, fingerprint, lockTtlMs, token);
+  if (!record) {
+    return { outcome: "execute", token };
+  }
+  if (record.fingerprint !== fingerprint) {
+    return { outcome: "mismatch" };
+  }
+  return record.state === "completed" && record.response
+    ? { outcome: "replay", response: record.response }
+    : { outcome: "in-flight" };
+}
@@ -0,0 +1,6 @@
+export * from "./idempotency";
+export * from "./idempotency-behavior";
+export * from "./idempotency-middleware";
+export * from "./memory-idempotency-store";
+export * from "./models";
+export * from "./sequelize-idempotency-store";
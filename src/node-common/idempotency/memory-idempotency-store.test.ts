@@ -0,0 +1,34 @@
+/**
+ * In-memory idempotency store tests
+ */
+
+import { afterAll, describe, expect, it } from "bun:test";
+import { MemoryIdempotencyStore } from "./memory-idempotency-store";
+
+const response = { status: 201, headers: {}, body: "{}" };
+
+describe("MemoryIdempotencyStore", () => {
+  const store = new MemoryIdempotencyStore();
+  afterAll(() => store.close());
+
+  it("should reserve a key once until it is released", async () => {
+    expect(await store.begin("key-1", "fp", 1000, "token-1")).toBeUndefined();
+    expect(await store.begin("key-1", "fp", 1000, "token-2")).toEqual({ fingerprint: "fp", state: "in-flight" });
+
+    await store.release("key-1", "token-1");
+    expect(await store.begin("key-1", "fp", 1000, "token-2")).toBeUndefined();
+  });
+
+  it("should keep the reservation that took over an expired one", async () => {
+    await store.begin("key-2", "fp", 1, "expired");
+    await Bun.sleep(5);
+    expect(await store.begin("key-2", "fp", 1000, "current")).toBeUndefined();
+
+    await store.release("key-2", "expired");
+    await store.complete("key-2", "expired", response, 1000);
+    expect(await store.begin("key-2", "fp", 1000, "other")).toEqual({ fingerprint: "fp", state: "in-flight" });
+
+    await store.complete("key-2", "current", response, 1000);
+    expect(await store.begin("key-2", "fp", 1000, "other")).toEqual({ fingerprint: "fp", state: "completed", response });
+  });
+});
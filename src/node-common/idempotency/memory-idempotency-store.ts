@@ -0,0 +1,68 @@
+import type { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from "./models";
+
+const DEFAULT_CLEANUP_INTERVAL_MS = 60000;
+
+interface MemoryEntry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+  /** Token of the reservation that created or completed the record */
+  token: string;
+}
+
+/** Keeps the idempotency keys in memory. Keys are per instance, use a shared store for multi-instance deployments */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly cleanupInterval: ReturnType<typeof setInterval>;
+
+  /** @param cleanupIntervalMs Interval at which expired keys are removed */
+  constructor(cleanupIntervalMs = DEFAULT_CLEANUP_INTERVAL_MS) {
+    this.cleanupInterval = setInterval(() => this.deleteExpired(), cleanupIntervalMs);
+    // The cleanup must not keep the process alive
+    this.cleanupInterval.unref?.();
+  }
+
+  async begin(key: string, fingerprint: string, lockTtlMs: number, token: string): Promise<IdempotencyRecord | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.record;
+    }
+
+    this.entries.set(key, { record: { fingerprint, state: "in-flight" }, expiresAt: Date.now() + lockTtlMs, token });
+    return undefined;
+  }
+
+  async complete(key: string, token: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    const entry = this.entries.get(key);
+    if (!this.isReservedBy(entry, token)) return;
+
+    this.entries.set(key, {
+      record: { fingerprint: entry.record.fingerprint, state: "completed", response },
+      expiresAt: Date.now() + ttlMs,
+      token,
+    });
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    if (this.isReservedBy(this.entries.get(key), token)) {
+      this.entries.delete(key);
+    }
+  }
+
+  /** Stops the periodic cleanup */
+  close(): void {
+    clearInterval(this.cleanupInterval);
+  }
+
+  private isReservedBy(entry: MemoryEntry | undefined, token: string): entry is MemoryEntry {
+    return entry?.record.state === "in-flight" && entry.token === token;
+  }
+
+  private deleteExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/** Response stored for an idempotency key, replayed to the retries */
+export interface IdempotentResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** State of an idempotency key */
+export interface IdempotencyRecord {
+  /** Hash of the request that first used the key */
+  fingerprint: string;
+  /** `in-flight` until the first request completes */
+  state: "in-flight" | "completed";
+  response?: IdempotentResponse;
+}
+
+/** Persists the idempotency keys */
+export interface IdempotencyStore {
+  /**
+   * Atomically reserves the key for a request with the given fingerprint, for `lockTtlMs`.
+   * The reservation is identified by `token`, so an expired one can't complete or release the reservation that took it over.
+   * Returns undefined if the key was reserved, or the existing record if the key is already in use.
+   */
+  begin(key: string, fingerprint: string, lockTtlMs: number, token: string): Promise<IdempotencyRecord | undefined>;
+  /** Stores the response of the key, replayed for `ttlMs`. Does nothing if the reservation is no longer the token's */
+  complete(key: string, token: string, response: IdempotentResponse, ttlMs: number): Promise<void>;
+  /** Releases the token's reservation without storing a response, so a retry executes the request again */
+  release(key: string, token: string): Promise<void>;
+}
+
+export interface IdempotencyOptions {
+  /** @default an in-memory store */
+  store?: IdempotencyStore;
+  /** Name of the header carrying the key
+   * @default "idempotency-key"
+   */
+  header?: string;
+  /** How long the responses are replayed
+   * @default 24 hours
+   */
+  ttlMs?: number;
+  /** Max duration of the first execution. Once expired, a retry executes the request again
+   * @default 60000
+   */
+  lockTtlMs?: number;
+  /** If true, requests without a key are rejected with 400
+   * @default false
+   */
+  required?: boolean;
+  /** Prefix of the store keys
+   * @default "idempotency"
+   */
+  prefix?: string;
+}
+
+export interface IdempotencyMiddlewareOptions extends IdempotencyOptions {
+  /** Methods the keys apply to, the others are not checked
+   * @default ["POST", "PATCH"]
+   */
+  methods?: string[];
+}
+
+/** Outcome of the check of an idempotency key */
+export type IdempotencyCheck =
+  /** The key was reserved with the token, the request must be executed */
+  | { outcome: "execute"; token: string }
+  /** The key was already used by the same request, its response must be replayed */
+  | { outcome: "replay"; response: IdempotentResponse }
+  /** The first request with the key is still running */
+  | { outcome: "in-flight" }
+  /** The key was already used by a different request */
+  | { outcome: "mismatch" };
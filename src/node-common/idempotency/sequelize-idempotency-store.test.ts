@@ -0,0 +1,50 @@
+/**
+ * Sequelize idempotency store tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Sequelize } from "sequelize";
+import { SequelizeIdempotencyStore } from "./sequelize-idempotency-store";
+
+/** Fake sequelize answering the queries in order, and recording them */
+function fakeSequelize(results: unknown[][]) {
+  const queries: { sql: string; replacements: any }[] = [];
+  const sequelize = {
+    query: async (sql: string, options: { replacements?: any } = {}) => {
+      queries.push({ sql, replacements: options.replacements });
+      return results.shift() ?? [];
+    },
+  };
+  return { sequelize: sequelize as unknown as Sequelize, queries };
+}
+
+describe("SequelizeIdempotencyStore", () => {
+  it("should try to reserve the key again when it is deleted after a lost upsert", async () => {
+    const { sequelize, queries } = fakeSequelize([[], [], [{ key: "key-1" }]]);
+    const store = new SequelizeIdempotencyStore(sequelize);
+
+    expect(await store.begin("key-1", "fp", 1000, "token-1")).toBeUndefined();
+    expect(queries.map(query => query.sql.trim().split(" ")[0])).toEqual(["INSERT", "SELECT", "INSERT"]);
+  });
+
+  it("should return the existing record when the upsert loses", async () => {
+    const { sequelize } = fakeSequelize([[], [{ fingerprint: "fp", state: "completed", response: { status: 201 } }]]);
+    const store = new SequelizeIdempotencyStore(sequelize);
+
+    expect(await store.begin("key-1", "fp", 1000, "token-1"))
+      .toEqual({ fingerprint: "fp", state: "completed", response: { status: 201 } as any });
+  });
+
+  it("should scope complete and release to the reservation token", async () => {
+    const { sequelize, queries } = fakeSequelize([]);
+    const store = new SequelizeIdempotencyStore(sequelize);
+
+    await store.complete("key-1", "token-1", { status: 201, headers: {}, body: "" }, 1000);
+    await store.release("key-1", "token-1");
+
+    for (const query of queries) {
+      expect(query.sql).toContain(`"token" = :token`);
+      expect(query.replacements.token).toBe("token-1");
+    }
+  });
+});
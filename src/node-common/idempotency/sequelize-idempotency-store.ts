@@ -0,0 +1,82 @@
+import { QueryTypes, type Sequelize } from "sequelize";
+import type { IdempotencyRecord, IdempotencyStore, IdempotentResponse } from "./models";
+
+const DEFAULT_TABLE_NAME = "IdempotencyKeys";
+
+/**
+ * Keeps the idempotency keys in a Postgres table, so retries are detected by every instance.
+ * Keys are reserved with a single upsert, so concurrent requests with the same key can't both run.
+ */
+export class SequelizeIdempotencyStore implements IdempotencyStore {
+  private readonly tableName: string;
+
+  constructor(private readonly sequelize: Sequelize, tableName: string = DEFAULT_TABLE_NAME) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid idempotency table name: ${tableName}`);
+    }
+    this.tableName = tableName;
+  }
+
+  /** Creates the table if it doesn't exist */
+  async init(): Promise<void> {
+    await this.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS "${this.tableName}" (
+        "key" TEXT PRIMARY KEY,
+        "fingerprint" TEXT NOT NULL,
+        "state" TEXT NOT NULL,
+        "response" JSONB,
+        "token" TEXT,
+        "expiresAt" TIMESTAMPTZ NOT NULL
+      );
+    `);
+  }
+
+  async begin(key: string, fingerprint: string, lockTtlMs: number, token: string): Promise<IdempotencyRecord | undefined> {
+    for (;;) {
+      // Inserts the key, or takes over an expired one
+      const reserved = await this.sequelize.query(
+        `INSERT INTO "${this.tableName}" ("key", "fingerprint", "state", "response", "token", "expiresAt")
+         VALUES (:key, :fingerprint, 'in-flight', NULL, :token, :expiresAt)
+         ON CONFLICT ("key") DO UPDATE
+           SET "fingerprint" = EXCLUDED."fingerprint", "state" = 'in-flight', "response" = NULL,
+               "token" = EXCLUDED."token", "expiresAt" = EXCLUDED."expiresAt"
+           WHERE "${this.tableName}"."expiresAt" <= now()
+         RETURNING "key"`,
+        { replacements: { key, fingerprint, token, expiresAt: new Date(Date.now() + lockTtlMs) }, type: QueryTypes.SELECT }
+      );
+      if (reserved.length > 0) {
+        return undefined;
+      }
+
+      const rows = await this.sequelize.query<IdempotencyRecord>(
+        `SELECT "fingerprint", "state", "response" FROM "${this.tableName}" WHERE "key" = :key`,
+        { replacements: { key }, type: QueryTypes.SELECT }
+      );
+      const row = rows[0];
+      if (row) {
+        return { fingerprint: row.fingerprint, state: row.state, response: row.response ?? undefined };
+      }
+      // Deleted in between, e.g. released by the first request: try to reserve it again
+    }
+  }
+
+  async complete(key: string, token: string, response: IdempotentResponse, ttlMs: number): Promise<void> {
+    await this.sequelize.query(
+      `UPDATE "${this.tableName}" SET "state" = 'completed', "response" = CAST(:response AS JSONB), "expiresAt" = :expiresAt
+       WHERE "key" = :key AND "state" = 'in-flight' AND "token" = :token`,
+      { replacements: { key, token, response: JSON.stringify(response), expiresAt: new Date(Date.now() + ttlMs) } }
+    );
+  }
+
+  async release(key: string, token: string): Promise<void> {
+    await this.sequelize.query(
+      `DELETE FROM "${this.tableName}" WHERE "key" = :key AND "state" = 'in-flight' AND "token" = :token`,
+      { replacements: { key, token } }
+    );
+  }
+
+  /** Deletes the expired keys. Run it periodically, e.g. from a Job */
+  async deleteExpired(): Promise<void> {
+    await this.sequelize.query(`DELETE FROM "${this.tableName}" WHERE "expiresAt" < now()`);
+  }
+}
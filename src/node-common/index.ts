@@ -3,10 +3,14 @@ export * from "./api-server";
 export * from "./api-client";
 export * from "./domain";
 export * from "./event-bus";
+export * from "./health";
+export * from "./idempotency";
 export * from "./job-scheduler";
 export * from "./jwt";
 export * from "./rabbit-mq";
+export * from "./rate-limit";
 export * from "./logger";
+export * from "./schema";
 export * from "./sequelize";
 export * from "./settings";
 export * from "./task-poller";
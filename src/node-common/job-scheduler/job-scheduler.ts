@@ -1,4 +1,4 @@
-import { Job } from ".";
+import { Job, type JobStatus } from ".";
 import { type ScopedLogger, LoggerFactory } from "../logger";
 
 export class JobScheduler {
@@ -31,4 +31,9 @@ export class JobScheduler {
       this.logger.info(`Job ${job.name} stopped`);
     }
   }
+
+  /** Returns the execution status of every job */
+  public getJobStatuses(): JobStatus[] {
+    return this.jobs.map(job => job.getStatus());
+  }
 }
@@ -1,8 +1,25 @@
 import { type ScopedLogger, LoggerFactory } from "../logger";
 
+/** Execution status of a job */
+export interface JobStatus {
+  name: string;
+  /** True if the job is started */
+  running: boolean;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+  /** Message of the last failure */
+  lastError?: string;
+  /** Number of failed executions since the last successful one */
+  consecutiveFailures: number;
+}
+
 export abstract class Job {
   private intervalId: NodeJS.Timeout | null = null;
   private logger: ScopedLogger;
+  private lastRunAt?: Date;
+  private lastSuccessAt?: Date;
+  private lastError?: string;
+  private consecutiveFailures = 0;
 
   /** Initializes a new instance of the JobBase class.
    * @param intervalMs The interval in milliseconds at which the job should be executed.
@@ -23,7 +40,7 @@ export abstract class Job {
       return;
     }
 
-    this.intervalId = setInterval(async () => await this.execute(), this.intervalMs);
+    this.intervalId = setInterval(async () => await this.run(), this.intervalMs);
   }
 
   stop(): void {
@@ -36,5 +53,32 @@ export abstract class Job {
     this.intervalId = null;
   }
 
+  /** Returns the execution status of the job */
+  getStatus(): JobStatus {
+    return {
+      name: this.name,
+      running: this.intervalId !== null,
+      lastRunAt: this.lastRunAt,
+      lastSuccessAt: this.lastSuccessAt,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+  }
+
+  private async run(): Promise<void> {
+    this.lastRunAt = new Date();
+
+    try {
+      await this.execute();
+      this.lastSuccessAt = new Date();
+      this.lastError = undefined;
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.consecutiveFailures++;
+      this.logger.error(`Job ${this.name} failed`, error as Error, { consecutiveFailures: this.consecutiveFailures });
+    }
+  }
+
   abstract execute(): Promise<void>;
 }
\ No newline at end of file
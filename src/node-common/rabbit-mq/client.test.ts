@@ -0,0 +1,267 @@
+/**
+ * RabbitMQ client publishing and failure handling tests, against a fake channel
+ */
+
+import { describe, expect, it } from "bun:test";
+import { EventEmitter } from "events";
+import { LoggerFactory } from "../logger";
+import { RabbitMqClient } from "./client";
+import { ATTEMPT_HEADER } from "./retry-policy";
+import type { RabbitMqClientOptions } from "./types";
+
+type ConfirmCallback = (err: unknown) => void;
+
+/** Channel recording the publishes and the acks. Confirms are held until `confirmAll` or `rejectAll` */
+class FakeChannel extends EventEmitter {
+  readonly published: { exchange: string; routingKey: string; headers: Record<string, any> }[] = [];
+  readonly acked: unknown[] = [];
+  readonly nacked: { msg: unknown; requeue: boolean }[] = [];
+  /** Messages returned by `get` */
+  readonly queued: unknown[] = [];
+  writable = true;
+  private pendingConfirms: ConfirmCallback[] = [];
+
+  publish(exchange: string, routingKey: string, _content: Buffer, options: { headers?: Record<string, any> }, callback?: ConfirmCallback) {
+    this.published.push({ exchange, routingKey, headers: options.headers ?? {} });
+    if (callback) this.pendingConfirms.push(callback);
+    return this.writable;
+  }
+
+  confirmAll() {
+    this.pendingConfirms.splice(0).forEach(callback => callback(null));
+  }
+
+  rejectAll() {
+    this.pendingConfirms.splice(0).forEach(callback => callback(new Error("nack")));
+  }
+
+  ack(msg: unknown) {
+    this.acked.push(msg);
+  }
+
+  nack(msg: unknown, _allUpTo: boolean, requeue: boolean) {
+    this.nacked.push({ msg, requeue });
+  }
+
+  async assertQueue(queue: string) {
+    return { queue };
+  }
+
+  async assertExchange() { }
+
+  async bindQueue() { }
+
+  async get() {
+    return this.queued.shift() ?? false;
+  }
+}
+
+const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+
+function createClient(options: RabbitMqClientOptions = {}) {
+  const client = new RabbitMqClient("amqp://localhost", "orders", loggerFactory, { name: "billing" }, options);
+  const channel = new FakeChannel();
+  // Connected client, without a broker
+  Object.assign(client as any, { connection: {}, channel, isInitialized: true });
+  return { client, channel, internals: client as any };
+}
+
+function failedMessage(attempt = 1) {
+  return {
+    content: Buffer.from(JSON.stringify({ name: "order.created" })),
+    fields: { exchange: "orders", routingKey: "order.created" },
+    properties: { headers: { [ATTEMPT_HEADER]: attempt } },
+  };
+}
+
+function consumedMessage(event: Record<string, any>) {
+  return {
+    content: Buffer.from(JSON.stringify({ name: "order.created", ...event })),
+    fields: { exchange: "orders", routingKey: "order.created" },
+    properties: { headers: {} },
+  };
+}
+
+/** Lets the pending promise callbacks run */
+const flush = () => Bun.sleep(1);
+
+describe("RabbitMqClient publishing", () => {
+  it("should wait for the drain when the write buffer is full", async () => {
+    const { client, channel } = createClient();
+    channel.writable = false;
+
+    let published = false;
+    const first = client.publishIntegrationEvent({ name: "order.created" }).then(() => published = true);
+    await flush();
+    expect(published).toBe(false);
+
+    channel.writable = true;
+    channel.emit("drain");
+    await first;
+    await client.publishIntegrationEvent({ name: "order.updated" });
+    expect(channel.published.map(message => message.routingKey)).toEqual(["order.created", "order.updated"]);
+  });
+
+  it("should resolve once the broker confirms the message", async () => {
+    const { client, channel } = createClient({ publisherConfirms: true });
+
+    let published = false;
+    const publish = client.publishIntegrationEvent({ name: "order.created" }).then(() => published = true);
+    await flush();
+    expect(published).toBe(false);
+
+    channel.confirmAll();
+    await publish;
+    expect(published).toBe(true);
+  });
+
+  it("should reject when the broker rejects the message or doesn't confirm it in time", async () => {
+    const { client, channel } = createClient({ publisherConfirms: true, confirmTimeoutMs: 20 });
+
+    const rejected = client.publishIntegrationEvent({ name: "order.created" });
+    await flush();
+    channel.rejectAll();
+    await expect(rejected).rejects.toThrow("Message rejected by the broker");
+
+    await expect(client.publishIntegrationEvent({ name: "order.created" })).rejects.toThrow("within 20ms");
+  });
+
+  it("should prefer the given trace headers to the current trace context", async () => {
+    const { client, channel } = createClient();
+    const trace = { traceId: "0af7651916cd43dd", spanId: "b7ad6b7169203331", flags: 1 };
+
+    await loggerFactory.getTraceContextStore().run(trace, async () => {
+      await client.publishIntegrationEvent({ name: "order.created" });
+      await client.publishIntegrationEvent({ name: "order.created" }, { headers: { traceparent: "00-1111111111111111-2222222222222222-01" } });
+    });
+
+    expect(channel.published.map(message => message.headers.traceparent)).toEqual([
+      "00-0af7651916cd43dd-b7ad6b7169203331-01",
+      "00-1111111111111111-2222222222222222-01",
+    ]);
+  });
+});
+
+describe("RabbitMqClient failed messages", () => {
+  it("should ack a failed message only once its retry copy is confirmed", async () => {
+    const { channel, internals } = createClient({ publisherConfirms: true, retry: { maxAttempts: 3 } });
+    const msg = failedMessage();
+
+    const handled = internals.handleFailedMessage(msg, new Error("db down"));
+    await flush();
+    expect(channel.published[0]).toMatchObject({ exchange: "", routingKey: "billing.retry.1000" });
+    expect(channel.acked).toEqual([]);
+
+    channel.confirmAll();
+    await handled;
+    expect(channel.acked).toEqual([msg]);
+  });
+
+  it("should requeue a failed message when its dead-letter copy is rejected", async () => {
+    const { channel, internals } = createClient({ publisherConfirms: true, retry: { maxAttempts: 3 } });
+    const msg = failedMessage(3);
+
+    const handled = internals.handleFailedMessage(msg, new Error("db down"));
+    await flush();
+    expect(channel.published[0]).toMatchObject({ exchange: "orders.dlx", routingKey: "billing" });
+
+    channel.rejectAll();
+    await handled;
+    expect(channel.acked).toEqual([]);
+    expect(channel.nacked).toEqual([{ msg, requeue: true }]);
+  });
+});
+
+describe("RabbitMqClient consumer", () => {
+  it("should process the messages of a key in order, and at most maxConcurrency at a time", async () => {
+    const { channel, internals } = createClient({ maxConcurrency: 2, orderingKey: event => event.orderId });
+    let running = 0;
+    let maxRunning = 0;
+    const processed: string[] = [];
+    internals.subscriptions = [{
+      exchange: "orders",
+      routingKey: "order.created",
+      handler: async (event: any) => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await Bun.sleep(event.ms);
+        processed.push(event.step);
+        running--;
+      },
+    }];
+
+    const dispatched = [
+      consumedMessage({ step: "a1", orderId: "a", ms: 30 }),
+      consumedMessage({ step: "a2", orderId: "a", ms: 1 }),
+      consumedMessage({ step: "b1", orderId: "b", ms: 10 }),
+      consumedMessage({ step: "x", ms: 10 }),
+      consumedMessage({ step: "a3", orderId: "a", ms: 1 }),
+    ].map(msg => internals.dispatchMessage(msg));
+
+    await flush();
+    expect(internals.getConsumerMetrics()).toMatchObject({ inFlight: 2, queued: 3, orderingKeys: 2 });
+
+    await Promise.all(dispatched);
+    expect(maxRunning).toBe(2);
+    expect(processed.filter(step => step.startsWith("a"))).toEqual(["a1", "a2", "a3"]);
+    expect(channel.acked).toHaveLength(5);
+    expect(internals.getConsumerMetrics()).toEqual({ inFlight: 0, queued: 0, processed: 5, failed: 0, orderingKeys: 0 });
+  });
+
+  it("should compute the ordering key from the upcast event, reading the message once", async () => {
+    let upcasts = 0;
+    const keys: string[] = [];
+    const { internals } = createClient({
+      upcasters: [{ eventName: "order.created", fromVersion: 1, upcast: event => (upcasts++, { ...event, orderId: event.id }) }],
+      orderingKey: event => (keys.push(event.orderId), event.orderId),
+    });
+    const events: any[] = [];
+    internals.subscriptions = [{ exchange: "orders", routingKey: "order.created", handler: async (event: any) => { events.push(event); } }];
+
+    await internals.dispatchMessage(consumedMessage({ id: "a" }));
+
+    expect(upcasts).toBe(1);
+    expect(keys).toEqual(["a"]);
+    expect(events[0]).toMatchObject({ id: "a", orderId: "a" });
+  });
+});
+
+describe("RabbitMqClient dead letters", () => {
+  const deadLetter = (content: string) => ({
+    content: Buffer.from(content),
+    fields: { exchange: "orders.dlx", routingKey: "billing" },
+    properties: { headers: { [ATTEMPT_HEADER]: 3, "x-error-message": "Unexpected token" } },
+  });
+
+  it("should return the raw content of the dead letters that are not JSON", async () => {
+    const { client, channel } = createClient({ retry: { maxAttempts: 3 } });
+    const invalid = deadLetter("not json");
+    channel.queued.push(invalid, deadLetter(JSON.stringify({ name: "order.created" })));
+
+    const deadLetters = await client.getDeadLetters();
+
+    expect(deadLetters.map(message => [message.content, message.invalidContent])).toEqual([
+      ["not json", true],
+      [{ name: "order.created" }, false],
+    ]);
+    expect(channel.nacked).toContainEqual({ msg: invalid, requeue: true });
+  });
+
+  it("should replay or skip the dead letters that are not JSON", async () => {
+    const { client, channel } = createClient({ retry: { maxAttempts: 3 } });
+    const [skipped, replayed] = [deadLetter("not json"), deadLetter("{}")];
+    channel.queued.push(skipped, replayed);
+
+    expect(await client.replayDeadLetters({ filter: message => !message.invalidContent })).toBe(1);
+    expect(channel.acked).toEqual([replayed]);
+    expect(channel.nacked).toEqual([{ msg: skipped, requeue: true }]);
+  });
+
+  it("should requeue the dead letter when the filter throws", async () => {
+    const { client, channel } = createClient({ retry: { maxAttempts: 3 } });
+    const msg = deadLetter("{}");
+    channel.queued.push(msg);
+
+    await expect(client.replayDeadLetters({ filter: () => { throw new Error("bad filter"); } })).rejects.toThrow("bad filter");
+    expect(channel.nacked).toEqual([{ msg, requeue: true }]);
+  });
+});
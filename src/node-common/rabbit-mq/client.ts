@@ -1,7 +1,47 @@
 import * as amqp from 'amqplib';
-import { type ScopedLogger, LoggerFactory } from '../logger';
+import { type ScopedLogger, type TraceContextStore, LoggerFactory, TracingPropagator } from '../logger';
 import type { IRabbitMqClient } from "./interface";
-import type { QueueConfig, RabbitMqEventBase } from "./types";
+import {
+  ATTEMPT_HEADER,
+  ERROR_MESSAGE_HEADER,
+  ERROR_STACK_HEADER,
+  EXCHANGE_HEADER,
+  FAILED_AT_HEADER,
+  getRetryDelayMs,
+  resolveRetryPolicy,
+  ROUTING_KEY_HEADER
+} from "./retry-policy";
+import { Semaphore } from '../semaphore';
+import { UUID } from '../uuid';
+import { DEFAULT_SCHEMA_VERSION, readEnvelope, SCHEMA_VERSION_HEADER, upcastEvent } from "./envelope";
+import { matchesBinding, type RoutingBinding } from "./routing";
+import type {
+  ConsumerMetrics,
+  DeadLetterMessage,
+  EventHandler,
+  EventHandlerOptions,
+  ExchangeType,
+  MessageEnvelope,
+  PublishOptions,
+  QueueConfig,
+  RabbitMqClientOptions,
+  RabbitMqEventBase,
+  ReplayDeadLettersOptions
+} from "./types";
+
+/** A handler bound to an exchange */
+interface EventSubscription extends RoutingBinding {
+  exchange: string;
+  handler: EventHandler<any>;
+}
+
+/** A consumed message read once, before its dispatch. `error` is set if the event can't be parsed or upcast */
+interface ReadMessage {
+  routingKey: string;
+  envelope: MessageEnvelope;
+  event?: any;
+  error?: unknown;
+}
 
 /**
  * Enhanced RabbitMQ Client with robust connection management and reconnection logic.
@@ -9,7 +49,7 @@ import type { QueueConfig, RabbitMqEventBase } from "./types";
 export class RabbitMqClient implements IRabbitMqClient {
   private connection: amqp.ChannelModel | null = null;
   private channel: amqp.Channel | null = null;
-  private eventHandlers: Map<string, ((eventContent: any) => Promise<void>)[]> = new Map();
+  private subscriptions: EventSubscription[] = [];
   private queueName: string | null = null;
   private consumerTag: string | null = null;
   private consumerSetupPromise: Promise<void> | null = null;
@@ -21,17 +61,36 @@ export class RabbitMqClient implements IRabbitMqClient {
   private readonly maxReconnectDelay = 30000; // 30 seconds
   private connectionClosedByServer = false;
   private readonly logger: ScopedLogger | undefined;
+  private readonly traceStore: TraceContextStore | undefined;
+  private readonly propagator: TracingPropagator | undefined;
   private heartbeatInterval?: NodeJS.Timeout;
   private readonly heartbeatIntervalMs = 25000; // 25 seconds (less than proxy timeout)
   private readonly heartbeatQueueName: string;
+  private readonly assertedRetryQueues = new Set<string>();
+  private drainPromise: Promise<void> | null = null;
+  private readonly concurrency?: Semaphore;
+  private readonly orderingChains = new Map<string, Promise<void>>();
+  private readonly metrics = { inFlight: 0, queued: 0, processed: 0, failed: 0 };
+  private readonly defaultConfirmTimeoutMs = 10000;
 
   constructor(
     private readonly host: string,
     private readonly exchange: string,
     loggerFactory?: LoggerFactory,
-    private readonly queueConfig?: QueueConfig
+    private readonly queueConfig?: QueueConfig,
+    private readonly options?: RabbitMqClientOptions
   ) {
     this.logger = loggerFactory?.forClass(this);
+    this.traceStore = loggerFactory?.getTraceContextStore();
+    this.propagator = this.traceStore ? new TracingPropagator(this.traceStore) : undefined;
+
+    if (this.isRetryEnabled() && !this.queueConfig?.name) {
+      throw new Error("Retry policies require a named queue");
+    }
+    if (this.options?.maxConcurrency !== undefined) {
+      if (this.options.maxConcurrency < 1) throw new Error("maxConcurrency must be greater than 0");
+      this.concurrency = new Semaphore(this.options.maxConcurrency);
+    }
 
     // Generate unique heartbeat queue name for this client instance
     const queueName = this.queueConfig?.name || '';
@@ -140,10 +199,12 @@ export class RabbitMqClient implements IRabbitMqClient {
         type: 'heartbeat'
       };
 
-      this.channel.publish(
-        this.exchange,
-        'heartbeat',
-        Buffer.from(JSON.stringify(heartbeatMessage))
+      // Sent straight to the heartbeat queue, so topic and fanout bindings never route it to consumers.
+      // It expires right away, the traffic is enough to keep the connection alive
+      this.channel.sendToQueue(
+        this.heartbeatQueueName,
+        Buffer.from(JSON.stringify(heartbeatMessage)),
+        { expiration: '0' }
       );
 
       this.logDebug('Heartbeat sent', {
@@ -169,6 +230,11 @@ export class RabbitMqClient implements IRabbitMqClient {
     this.isInitialized = true;
   }
 
+  /** Returns true if the client has an open connection and channel */
+  isConnected(): boolean {
+    return this.isInitialized && !!this.connection && !!this.channel && !this.isReconnecting;
+  }
+
   private async connect(): Promise<void> {
     try {
       // Reset connection state
@@ -217,7 +283,9 @@ export class RabbitMqClient implements IRabbitMqClient {
 
       // Create channel
       if (this.connection) {
-        this.channel = await this.connection.createChannel();
+        this.channel = this.options?.publisherConfirms
+          ? await this.connection.createConfirmChannel()
+          : await this.connection.createChannel();
 
         // Setup channel event handlers
         if (this.channel) {
@@ -238,7 +306,10 @@ export class RabbitMqClient implements IRabbitMqClient {
           });
 
           // Assert exchange
-          await this.channel.assertExchange(this.exchange, 'direct', { durable: true });
+          await this.channel.assertExchange(this.exchange, this.options?.exchangeType ?? 'direct', { durable: true });
+          for (const exchange of this.options?.exchanges ?? []) {
+            await this.channel.assertExchange(exchange.name, exchange.type, { durable: exchange.durable ?? true });
+          }
         }
       }
 
@@ -333,7 +404,7 @@ export class RabbitMqClient implements IRabbitMqClient {
       try {
         await this.connect();
         // Re-setup consumer if we had one
-        if (this.eventHandlers.size > 0) {
+        if (this.subscriptions.length > 0) {
           await this.setupConsumer();
         }
       } catch (error) {
@@ -361,30 +432,111 @@ export class RabbitMqClient implements IRabbitMqClient {
     }
   }
 
-  async publishIntegrationEvent(event: RabbitMqEventBase): Promise<void> {
+  async publishIntegrationEvent(event: RabbitMqEventBase, options: PublishOptions = {}): Promise<void> {
     await this.ensureConnection();
 
     if (!this.channel) {
       throw new Error("RabbitMQ channel not available");
     }
 
+    const exchange = options.exchange ?? this.exchange;
     try {
-      this.channel.publish(this.exchange, event.name, Buffer.from(JSON.stringify(event)));
+      await this.publishMessage(this.channel, exchange, event.name, Buffer.from(JSON.stringify(event)), {
+        messageId: options.messageId ?? UUID.getV7(),
+        correlationId: options.correlationId,
+        // AMQP timestamps are in seconds
+        timestamp: Math.floor(Date.now() / 1000),
+        contentType: 'application/json',
+        type: event.name,
+        appId: this.options?.producer,
+        headers: {
+          ...this.propagator?.buildOutboundHeaders(),
+          // Explicit headers win, e.g. the trace context stored with an outbox event
+          ...options.headers,
+          [SCHEMA_VERSION_HEADER]: this.options?.schemaVersions?.[event.name] ?? DEFAULT_SCHEMA_VERSION
+        }
+      });
       this.logDebug('Event published successfully', {
         eventName: event.name,
-        exchange: this.exchange
+        exchange
       });
     } catch (error) {
       this.logError('Failed to publish event', {
         error: error instanceof Error ? error.message : String(error) || 'Unknown error',
         stack: error instanceof Error ? error.stack : undefined,
         eventName: event.name,
-        exchange: this.exchange
+        exchange
       });
       throw error;
     }
   }
 
+  /**
+   * Publishes the message, waiting for the channel to drain when its write buffer is full.
+   * With publisher confirms, resolves once the broker acks the message.
+   */
+  private async publishMessage(
+    channel: amqp.Channel,
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: amqp.Options.Publish
+  ): Promise<void> {
+    if (this.drainPromise) {
+      await this.drainPromise;
+    }
+
+    if (!this.options?.publisherConfirms) {
+      if (!channel.publish(exchange, routingKey, content, options)) {
+        await this.waitForDrain(channel);
+      }
+      return;
+    }
+
+    const timeoutMs = this.options.confirmTimeoutMs ?? this.defaultConfirmTimeoutMs;
+    let timeout: NodeJS.Timeout | undefined;
+    const confirmed = new Promise<void>((resolve, reject) => {
+      timeout = setTimeout(() => reject(new Error(`Publish not confirmed by the broker within ${timeoutMs}ms`)), timeoutMs);
+      const written = (channel as amqp.ConfirmChannel).publish(exchange, routingKey, content, options, (err) => {
+        if (err) {
+          reject(new Error('Message rejected by the broker'));
+        } else {
+          resolve();
+        }
+      });
+      if (!written) {
+        // The confirm already waits for the write, the next publishes wait for the drain
+        this.waitForDrain(channel);
+      }
+    });
+
+    try {
+      await confirmed;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /** Resolves when the write buffer of the channel is drained, or when the channel closes */
+  private waitForDrain(channel: amqp.Channel): Promise<void> {
+    if (!this.drainPromise) {
+      this.logWarn('RabbitMQ write buffer full, waiting for drain', {
+        exchange: this.exchange
+      });
+      this.drainPromise = new Promise<void>(resolve => {
+        const done = () => {
+          channel.off('drain', done);
+          channel.off('close', done);
+          this.drainPromise = null;
+          resolve();
+        };
+        channel.once('drain', done);
+        channel.once('close', done);
+      });
+    }
+    return this.drainPromise;
+  }
+
   private async setupConsumer() {
     // If we already have a consumer setup in progress, wait for it
     if (this.consumerSetupPromise) {
@@ -427,43 +579,21 @@ export class RabbitMqClient implements IRabbitMqClient {
           });
         }
 
+        if (this.isRetryEnabled()) {
+          await this.assertDeadLetterQueue();
+        }
+
         // Setup consumer only if we don't have one
         if (!this.consumerTag) {
+          if (this.options?.prefetch) {
+            await this.channel.prefetch(this.options.prefetch);
+          }
+
           const { consumerTag } = await this.channel.consume(
             this.queueName,
             async (msg) => {
               if (msg) {
-                try {
-                  const routingKey = msg.fields.routingKey;
-                  const eventContent = JSON.parse(msg.content.toString());
-                  const handlers = this.eventHandlers.get(routingKey) || [];
-
-                  this.logDebug('Processing message', {
-                    routingKey,
-                    queueName: this.queueName,
-                    exchange: this.exchange
-                  });
-
-                  // Execute all handlers for this routing key
-                  await Promise.all(handlers.map(handler => handler(eventContent)));
-
-                  this.channel?.ack(msg);
-                  this.logDebug('Message processed successfully', {
-                    routingKey,
-                    queueName: this.queueName,
-                    exchange: this.exchange
-                  });
-                } catch (error) {
-                  this.logError('Error processing message', {
-                    error: error instanceof Error ? error.message : String(error) || 'Unknown error',
-                    stack: error instanceof Error ? error.stack : undefined,
-                    routingKey: msg.fields.routingKey,
-                    queueName: this.queueName,
-                    exchange: this.exchange
-                  });
-                  // Reject the message to prevent infinite retries
-                  this.channel?.nack(msg, false, false);
-                }
+                await this.dispatchMessage(msg);
               }
             },
             { noAck: false }
@@ -478,13 +608,13 @@ export class RabbitMqClient implements IRabbitMqClient {
         }
 
         // Re-bind all routing keys
-        for (const routingKey of this.eventHandlers.keys()) {
+        for (const subscription of this.subscriptions) {
           if (this.queueName && this.channel) {
-            await this.channel.bindQueue(this.queueName, this.exchange, routingKey);
+            await this.bindSubscription(subscription);
             this.logDebug('Routing key bound', {
-              routingKey,
+              routingKey: subscription.routingKey,
               queueName: this.queueName,
-              exchange: this.exchange
+              exchange: subscription.exchange
             });
           }
         }
@@ -497,18 +627,25 @@ export class RabbitMqClient implements IRabbitMqClient {
     return this.consumerSetupPromise;
   }
 
-  async registerEventHandler<TEvent>(routingKey: string, handler: (eventContent: TEvent) => Promise<void>): Promise<void> {
+  async registerEventHandler<TEvent>(
+    routingKey: string,
+    handler: EventHandler<TEvent>,
+    options: EventHandlerOptions = {}
+  ): Promise<void> {
     await this.ensureConnection();
 
-    // Add handler to the map
-    const handlers = this.eventHandlers.get(routingKey) || [];
-    handlers.push(handler);
-    this.eventHandlers.set(routingKey, handlers);
+    const subscription: EventSubscription = {
+      exchange: options.exchange ?? this.exchange,
+      routingKey,
+      bindingArguments: options.bindingArguments,
+      handler
+    };
+    this.subscriptions.push(subscription);
 
     this.logInfo('Event handler registered', {
       routingKey,
-      handlerCount: handlers.length,
-      exchange: this.exchange
+      handlerCount: this.subscriptions.filter(s => s.exchange === subscription.exchange && s.routingKey === routingKey).length,
+      exchange: subscription.exchange
     });
 
     // Setup consumer if not already done
@@ -516,15 +653,439 @@ export class RabbitMqClient implements IRabbitMqClient {
 
     // Bind queue to routing key if not already bound
     if (this.queueName && this.channel) {
-      await this.channel.bindQueue(this.queueName, this.exchange, routingKey);
+      await this.bindSubscription(subscription);
     }
   }
 
   // For backward compatibility
-  async handleIntegrationEvent<TEvent>(routingKey: string, handler: (eventContent: TEvent) => Promise<void>): Promise<void> {
+  async handleIntegrationEvent<TEvent>(routingKey: string, handler: EventHandler<TEvent>): Promise<void> {
     await this.registerEventHandler(routingKey, handler);
   }
 
+  /** Returns the counters of the consumer, e.g. for metrics or health checks */
+  getConsumerMetrics(): ConsumerMetrics {
+    return { ...this.metrics, orderingKeys: this.orderingChains.size };
+  }
+
+  /**
+   * Processes the message once a handler slot is free (`maxConcurrency`).
+   * Messages with the same ordering key are processed one after the other, in delivery order.
+   */
+  private async dispatchMessage(msg: amqp.ConsumeMessage): Promise<void> {
+    // Acks must go to the delivering channel, messages of a closed channel are redelivered by the broker
+    const channel = this.channel;
+    const message = this.readMessage(msg);
+    const orderingKey = this.getOrderingKey(message);
+    this.metrics.queued++;
+
+    const run = async () => {
+      await this.concurrency?.acquire();
+      this.metrics.queued--;
+      this.metrics.inFlight++;
+      try {
+        if (channel && channel === this.channel) {
+          await this.runInMessageTrace(message.envelope, () => this.processMessage(msg, message));
+        }
+      } finally {
+        this.metrics.inFlight--;
+        this.concurrency?.release();
+      }
+    };
+
+    if (orderingKey === undefined) {
+      return run();
+    }
+
+    const current = (this.orderingChains.get(orderingKey) ?? Promise.resolve()).then(run);
+    this.orderingChains.set(orderingKey, current);
+    try {
+      await current;
+    } finally {
+      if (this.orderingChains.get(orderingKey) === current) {
+        this.orderingChains.delete(orderingKey);
+      }
+    }
+  }
+
+  private getOrderingKey(message: ReadMessage): string | undefined {
+    // Unreadable messages fail in processMessage
+    if (!this.options?.orderingKey || message.error !== undefined) {
+      return undefined;
+    }
+
+    try {
+      const key = this.options.orderingKey(message.event, message.routingKey);
+      return key === undefined ? undefined : String(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Runs the processing in the trace of the publisher, as a new span, so the logs of both services share the trace id.
+   * Messages without trace context get a new trace.
+   */
+  private runInMessageTrace<T>(envelope: MessageEnvelope, fn: () => Promise<T>): Promise<T> {
+    if (!this.traceStore || !this.propagator) {
+      return fn();
+    }
+
+    const parent = this.propagator.extractFromHeaders({ traceparent: envelope.traceparent, tracestate: envelope.tracestate });
+    const context = parent
+      ? { ...this.traceStore.generate(parent.spanId), traceId: parent.traceId, traceState: parent.traceState }
+      : this.traceStore.generate();
+    return this.traceStore.run(context, fn);
+  }
+
+  /** Reads the envelope, parses the event and migrates it to its latest schema version */
+  private readMessage(msg: amqp.Message): ReadMessage {
+    const routingKey = this.getRoutingKey(msg);
+    const envelope = readEnvelope(msg, routingKey);
+    try {
+      const event = JSON.parse(msg.content.toString());
+      return { routingKey, envelope, event: upcastEvent(this.options?.upcasters ?? [], envelope.type, envelope.schemaVersion, event).event };
+    } catch (error) {
+      return { routingKey, envelope, error };
+    }
+  }
+
+  private async processMessage(msg: amqp.ConsumeMessage, message: ReadMessage): Promise<void> {
+    try {
+      const { routingKey, envelope, event: eventContent } = message;
+      if (message.error !== undefined) {
+        throw message.error;
+      }
+      const handlers = this.getMatchingHandlers(msg);
+
+      this.logDebug('Processing message', {
+        routingKey,
+        messageId: envelope.messageId,
+        schemaVersion: envelope.schemaVersion,
+        sourceExchange: this.getSourceExchange(msg),
+        queueName: this.queueName,
+        exchange: this.exchange
+      });
+
+      // Execute all handlers whose binding matches the message
+      await Promise.all(handlers.map(handler => handler(eventContent, envelope)));
+
+      this.channel?.ack(msg);
+      this.metrics.processed++;
+      this.logDebug('Message processed successfully', {
+        routingKey,
+        queueName: this.queueName,
+        exchange: this.exchange
+      });
+    } catch (error) {
+      this.metrics.failed++;
+      this.logError('Error processing message', {
+        error: error instanceof Error ? error.message : String(error) || 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        routingKey: this.getRoutingKey(msg),
+        attempt: this.getAttempt(msg),
+        queueName: this.queueName,
+        exchange: this.exchange
+      });
+      await this.handleFailedMessage(msg, error);
+    }
+  }
+
+  private async bindSubscription(subscription: EventSubscription): Promise<void> {
+    await this.channel!.bindQueue(
+      this.queueName!,
+      subscription.exchange,
+      subscription.routingKey,
+      subscription.bindingArguments
+    );
+  }
+
+  private getExchangeType(exchange: string): ExchangeType {
+    if (exchange === this.exchange) {
+      return this.options?.exchangeType ?? 'direct';
+    }
+    return this.options?.exchanges?.find(config => config.name === exchange)?.type ?? 'direct';
+  }
+
+  /**
+   * Returns the handlers whose binding routes the message, as the broker does for the exchange type:
+   * the queue receives the message once even when several bindings match.
+   */
+  private getMatchingHandlers(msg: amqp.Message): EventHandler<any>[] {
+    const exchange = this.getSourceExchange(msg);
+    const routingKey = this.getRoutingKey(msg);
+    const exchangeType = this.getExchangeType(exchange);
+    return this.subscriptions
+      .filter(subscription => subscription.exchange === exchange &&
+        matchesBinding(exchangeType, subscription, routingKey, msg.properties.headers))
+      .map(subscription => subscription.handler);
+  }
+
+  /** Returns up to `limit` messages of the dead-letter queue, without removing them */
+  async getDeadLetters<TEvent = any>(limit = 10): Promise<DeadLetterMessage<TEvent>[]> {
+    const channel = await this.getDeadLetterChannel();
+    const messages: amqp.GetMessage[] = [];
+    try {
+      for (let i = 0; i < limit; i++) {
+        const msg = await channel.get(this.getDeadLetterQueueName(), { noAck: false });
+        if (!msg) break;
+        messages.push(msg);
+      }
+      return messages.map(msg => this.toDeadLetterMessage<TEvent>(msg));
+    } finally {
+      // The messages are only inspected, so they go back to the queue
+      for (const msg of messages) {
+        channel.nack(msg, false, true);
+      }
+    }
+  }
+
+  /**
+   * Moves dead-lettered messages back to the queue, with a new attempt count.
+   * Returns the number of replayed messages.
+   */
+  async replayDeadLetters(options: ReplayDeadLettersOptions = {}): Promise<number> {
+    const channel = await this.getDeadLetterChannel();
+    const skipped: amqp.GetMessage[] = [];
+    let replayed = 0;
+    try {
+      for (let i = 0; i < (options.limit ?? 100); i++) {
+        const msg = await channel.get(this.getDeadLetterQueueName(), { noAck: false });
+        if (!msg) break;
+
+        const deadLetter = this.toDeadLetterMessage(msg);
+        let matches: boolean;
+        try {
+          matches = !options.filter || options.filter(deadLetter);
+        } catch (error) {
+          channel.nack(msg, false, true);
+          throw error;
+        }
+        if (!matches) {
+          skipped.push(msg);
+          continue;
+        }
+
+        const headers = this.getForwardedHeaders(msg);
+        delete headers[ERROR_MESSAGE_HEADER];
+        delete headers[ERROR_STACK_HEADER];
+        delete headers[FAILED_AT_HEADER];
+        try {
+          // Sent to the queue through the default exchange. The dead letter is only acked once the copy is confirmed
+          await this.publishMessage(channel, '', this.queueConfig!.name!, msg.content, {
+            ...msg.properties,
+            headers: {
+              ...headers,
+              [ATTEMPT_HEADER]: 1,
+              [ROUTING_KEY_HEADER]: deadLetter.routingKey,
+              [EXCHANGE_HEADER]: deadLetter.exchange
+            }
+          });
+        } catch (error) {
+          channel.nack(msg, false, true);
+          throw error;
+        }
+        channel.ack(msg);
+        replayed++;
+      }
+    } finally {
+      // Skipped messages are released at the end, so the same messages are not read again
+      for (const msg of skipped) {
+        channel.nack(msg, false, true);
+      }
+    }
+
+    this.logInfo('Dead-lettered messages replayed', {
+      replayed,
+      skipped: skipped.length,
+      queueName: this.queueConfig?.name,
+      exchange: this.exchange
+    });
+    return replayed;
+  }
+
+  private isRetryEnabled(): boolean {
+    return !!this.options?.retry || Object.keys(this.options?.retryPolicies ?? {}).length > 0;
+  }
+
+  private getDeadLetterExchangeName(): string {
+    return this.options?.deadLetterExchange ?? `${this.exchange}.dlx`;
+  }
+
+  private getDeadLetterQueueName(): string {
+    return `${this.queueConfig!.name}.dead-letter`;
+  }
+
+  /** Routing key the message was published with, also for retried and replayed messages */
+  private getRoutingKey(msg: amqp.Message): string {
+    return msg.properties.headers?.[ROUTING_KEY_HEADER] ?? msg.fields.routingKey;
+  }
+
+  /** Exchange the message was published to, also for retried and replayed messages */
+  private getSourceExchange(msg: amqp.Message): string {
+    return msg.properties.headers?.[EXCHANGE_HEADER] ?? msg.fields.exchange;
+  }
+
+  private getAttempt(msg: amqp.Message): number {
+    return Number(msg.properties.headers?.[ATTEMPT_HEADER] ?? 1);
+  }
+
+  /** Headers copied when the message is republished. The broker's dead-lettering headers are left to the broker */
+  private getForwardedHeaders(msg: amqp.Message): Record<string, any> {
+    const headers = { ...msg.properties.headers };
+    for (const name of Object.keys(headers)) {
+      if (name === 'x-death' || name.startsWith('x-first-death-') || name.startsWith('x-last-death-')) {
+        delete headers[name];
+      }
+    }
+    return headers;
+  }
+
+  private async getDeadLetterChannel(): Promise<amqp.Channel> {
+    if (!this.isRetryEnabled()) {
+      throw new Error("Dead-lettering requires a retry policy");
+    }
+
+    await this.ensureConnection();
+    if (!this.channel) {
+      throw new Error("RabbitMQ channel not available");
+    }
+
+    await this.assertDeadLetterQueue();
+    return this.channel;
+  }
+
+  /** Asserts the dead-letter exchange and the dead-letter queue of this client's queue */
+  private async assertDeadLetterQueue(): Promise<void> {
+    if (!this.channel) {
+      throw new Error("RabbitMQ channel not available");
+    }
+
+    const queueName = this.getDeadLetterQueueName();
+    await this.channel.assertExchange(this.getDeadLetterExchangeName(), 'direct', { durable: true });
+    await this.channel.assertQueue(queueName, {
+      durable: true,
+      // Inspecting the dead letters requeues them, and each requeue counts as a delivery:
+      // without this, RabbitMQ 4 drops them once they reach its default delivery limit of 20
+      arguments: { 'x-queue-type': 'quorum', 'x-delivery-limit': -1 }
+    });
+    // Queues of different services can share the exchange, each one gets its own failed messages
+    await this.channel.bindQueue(queueName, this.getDeadLetterExchangeName(), this.queueConfig!.name!);
+  }
+
+  /**
+   * Asserts the queue holding the messages to retry after `delayMs`.
+   * Each delay has its own queue, so a long delay never holds back a shorter one.
+   * Expired messages go back to the main queue through the default exchange.
+   */
+  private async assertRetryQueue(delayMs: number): Promise<string> {
+    const queueName = `${this.queueConfig!.name}.retry.${delayMs}`;
+    if (!this.assertedRetryQueues.has(queueName)) {
+      await this.channel!.assertQueue(queueName, {
+        durable: true,
+        arguments: {
+          'x-message-ttl': delayMs,
+          'x-dead-letter-exchange': '',
+          'x-dead-letter-routing-key': this.queueConfig!.name
+        }
+      });
+      this.assertedRetryQueues.add(queueName);
+    }
+    return queueName;
+  }
+
+  /**
+   * Schedules a retry of the failed message, or sends it to the dead-letter queue once out of attempts.
+   * Without a retry policy, the message is dropped.
+   */
+  private async handleFailedMessage(msg: amqp.ConsumeMessage, error: unknown): Promise<void> {
+    const channel = this.channel;
+    const routingKey = this.getRoutingKey(msg);
+    const policy = resolveRetryPolicy(this.options, routingKey);
+    if (!channel || !policy) {
+      // Reject the message to prevent infinite retries
+      channel?.nack(msg, false, false);
+      return;
+    }
+
+    const attempt = this.getAttempt(msg);
+    const headers = {
+      ...this.getForwardedHeaders(msg),
+      [ROUTING_KEY_HEADER]: routingKey,
+      [EXCHANGE_HEADER]: this.getSourceExchange(msg)
+    };
+    try {
+      if (attempt < policy.maxAttempts) {
+        const delayMs = getRetryDelayMs(policy, attempt);
+        const retryQueue = await this.assertRetryQueue(delayMs);
+        await this.publishMessage(channel, '', retryQueue, msg.content, {
+          ...msg.properties,
+          headers: { ...headers, [ATTEMPT_HEADER]: attempt + 1 }
+        });
+        this.logWarn('Message scheduled for retry', {
+          routingKey,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          queueName: this.queueName,
+          exchange: this.exchange
+        });
+      } else {
+        await this.publishMessage(channel, this.getDeadLetterExchangeName(), this.queueConfig!.name!, msg.content, {
+          ...msg.properties,
+          headers: {
+            ...headers,
+            [ATTEMPT_HEADER]: attempt,
+            [ERROR_MESSAGE_HEADER]: error instanceof Error ? error.message : String(error),
+            [ERROR_STACK_HEADER]: error instanceof Error ? error.stack : undefined,
+            [FAILED_AT_HEADER]: new Date().toISOString()
+          }
+        });
+        this.logError('Message dead-lettered after max attempts', {
+          routingKey,
+          attempts: attempt,
+          queueName: this.queueName,
+          exchange: this.exchange
+        });
+      }
+      // With publisher confirms, the copy is confirmed by now, so the message can't be lost
+      channel.ack(msg);
+    } catch (retryError) {
+      this.logError('Failed to schedule message retry, message requeued', {
+        error: retryError instanceof Error ? retryError.message : String(retryError) || 'Unknown error',
+        routingKey,
+        queueName: this.queueName,
+        exchange: this.exchange
+      });
+      // Requeued rather than dropped, it is redelivered with the same attempt
+      channel.nack(msg, false, true);
+    }
+  }
+
+  private toDeadLetterMessage<TEvent>(msg: amqp.Message): DeadLetterMessage<TEvent> {
+    const headers = msg.properties.headers ?? {};
+    const failedAt = headers[FAILED_AT_HEADER];
+    const text = msg.content.toString();
+    let content: TEvent | string;
+    let invalidContent = false;
+    try {
+      content = JSON.parse(text);
+    } catch {
+      // Unparsable messages end up in the dead-letter queue too, so they are returned as is
+      content = text;
+      invalidContent = true;
+    }
+    return {
+      exchange: this.getSourceExchange(msg),
+      routingKey: this.getRoutingKey(msg),
+      content,
+      invalidContent,
+      attempts: this.getAttempt(msg),
+      error: { message: headers[ERROR_MESSAGE_HEADER], stack: headers[ERROR_STACK_HEADER] },
+      failedAt: failedAt ? new Date(failedAt) : undefined,
+      headers
+    };
+  }
+
   async close(): Promise<void> {
     this.isReconnecting = false;
 
@@ -0,0 +1,58 @@
+/**
+ * RabbitMQ envelope tests
+ */
+
+import type * as amqp from "amqplib";
+import { describe, expect, it } from "bun:test";
+import { readEnvelope, upcastEvent } from "./envelope";
+
+function message(properties: Partial<amqp.MessageProperties>): amqp.Message {
+  return { content: Buffer.from("{}"), fields: {} as amqp.MessageFields, properties: properties as amqp.MessageProperties };
+}
+
+describe("readEnvelope", () => {
+  it("reads the metadata from the properties and the headers", () => {
+    const envelope = readEnvelope(message({
+      messageId: "018f",
+      correlationId: "cmd-1",
+      timestamp: 1700000000,
+      appId: "orders",
+      type: "order.created",
+      headers: { "x-schema-version": 2, traceparent: "00-abc-def-01" },
+    }), "order.created");
+
+    expect(envelope).toMatchObject({
+      messageId: "018f",
+      correlationId: "cmd-1",
+      timestamp: new Date(1700000000 * 1000),
+      producer: "orders",
+      type: "order.created",
+      schemaVersion: 2,
+      traceparent: "00-abc-def-01",
+    });
+  });
+
+  it("defaults to the routing key and version 1 for messages without envelope", () => {
+    const envelope = readEnvelope(message({ headers: undefined }), "user.created");
+
+    expect(envelope.type).toBe("user.created");
+    expect(envelope.schemaVersion).toBe(1);
+    expect(envelope.timestamp).toBeUndefined();
+  });
+});
+
+describe("upcastEvent", () => {
+  const upcasters = [
+    { eventName: "order.created", fromVersion: 1, upcast: (e: any) => ({ ...e, total: { amount: e.total, currency: "EUR" } }) },
+    { eventName: "order.created", fromVersion: 2, upcast: ({ customer, ...e }: any) => ({ ...e, customerId: customer }) },
+  ];
+
+  it("applies the upcasters one version at a time, from the event version", () => {
+    expect(upcastEvent(upcasters, "order.created", 1, { total: 10, customer: "c-1" })).toEqual({
+      event: { total: { amount: 10, currency: "EUR" }, customerId: "c-1" },
+      schemaVersion: 3,
+    });
+    expect(upcastEvent(upcasters, "order.created", 3, { a: 1 })).toEqual({ event: { a: 1 }, schemaVersion: 3 });
+    expect(upcastEvent(upcasters, "user.created", 1, { a: 1 })).toEqual({ event: { a: 1 }, schemaVersion: 1 });
+  });
+});
@@ -0,0 +1,50 @@
+import type * as amqp from 'amqplib';
+import type { EventUpcaster, MessageEnvelope } from "./types";
+
+/** Version of the event schema the message was published with */
+export const SCHEMA_VERSION_HEADER = 'x-schema-version';
+export const TRACE_PARENT_HEADER = 'traceparent';
+export const TRACE_STATE_HEADER = 'tracestate';
+
+export const DEFAULT_SCHEMA_VERSION = 1;
+
+/**
+ * Reads the envelope of a consumed message from its properties and headers.
+ * Messages published without an envelope get the routing key as type and the default schema version.
+ */
+export function readEnvelope(msg: amqp.Message, routingKey: string): MessageEnvelope {
+  const { properties } = msg;
+  const headers = properties.headers ?? {};
+  return {
+    messageId: properties.messageId,
+    correlationId: properties.correlationId,
+    // AMQP timestamps are in seconds
+    timestamp: typeof properties.timestamp === 'number' ? new Date(properties.timestamp * 1000) : undefined,
+    producer: properties.appId,
+    type: properties.type ?? routingKey,
+    schemaVersion: Number(headers[SCHEMA_VERSION_HEADER] ?? DEFAULT_SCHEMA_VERSION),
+    traceparent: headers[TRACE_PARENT_HEADER],
+    tracestate: headers[TRACE_STATE_HEADER],
+    headers
+  };
+}
+
+/**
+ * Migrates the event to its latest schema version, applying the upcasters of its type one version at a time.
+ * Returns the event and its new version.
+ */
+export function upcastEvent(
+  upcasters: readonly EventUpcaster[],
+  type: string,
+  schemaVersion: number,
+  event: any
+): { event: any; schemaVersion: number } {
+  let current = { event, schemaVersion };
+  for (;;) {
+    const upcaster = upcasters.find(u => u.eventName === type && u.fromVersion === current.schemaVersion);
+    if (!upcaster) {
+      return current;
+    }
+    current = { event: upcaster.upcast(current.event), schemaVersion: current.schemaVersion + 1 };
+  }
+}
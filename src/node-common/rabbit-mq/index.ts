@@ -1,3 +1,8 @@
 export * from "./client"
+export * from "./envelope"
 export * from "./interface"
+export * from "./outbox-relay-job"
+export * from "./retry-policy"
+export * from "./routing"
+export * from "./sequelize-outbox"
 export * from "./types"
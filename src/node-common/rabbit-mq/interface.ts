@@ -1,21 +1,26 @@
-import type { RabbitMqEventBase } from "./types";
+import type { EventHandler, EventHandlerOptions, PublishOptions, RabbitMqEventBase } from "./types";
 
 export interface IRabbitMqClient {
   /** Initialize the RabbitMQ client */
   init(): Promise<void>;
 
+  /** Returns true if the client has an open connection and channel */
+  isConnected(): boolean;
+
   /** Publish an integration event to RabbitMQ.
    * N.B. Publishes should always be in try-catch blocks to handle network errors
    * @param event The event to publish
+   * @param options Properties of the message
    */
-  publishIntegrationEvent(event: RabbitMqEventBase): Promise<void>;
+  publishIntegrationEvent(event: RabbitMqEventBase, options?: PublishOptions): Promise<void>;
 
   /** Register a handler for an integration event.
    * N.B. Handlers should always be in try-catch blocks to handle network errors
-   * @param routingKey The routing key to bind the handler to
-   * @param handler The handler for the event
+   * @param routingKey The routing key to bind the handler to, a pattern for topic exchanges
+   * @param handler The handler for the event, receiving the event and the envelope of the message
+   * @param options The exchange and the binding arguments
    */
-  registerEventHandler<TEvent>(routingKey: string, handler: (eventContent: TEvent) => Promise<void>): Promise<void>
+  registerEventHandler<TEvent>(routingKey: string, handler: EventHandler<TEvent>, options?: EventHandlerOptions): Promise<void>
 
   /** Register a handler for an integration event.
    * N.B. Handlers should always be in try-catch blocks to handle network errors
@@ -23,5 +28,5 @@ export interface IRabbitMqClient {
    * @param routingKey The routing key to bind the handler to
    * @param handler The handler for the event
    */
-  handleIntegrationEvent<TEvent>(routingKey: string, handler: (eventContent: TEvent) => Promise<void>): Promise<void>;
+  handleIntegrationEvent<TEvent>(routingKey: string, handler: EventHandler<TEvent>): Promise<void>;
 }
\ No newline at end of file
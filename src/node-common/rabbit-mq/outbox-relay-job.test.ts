@@ -0,0 +1,41 @@
+/**
+ * Outbox relay job tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { LoggerFactory } from "../logger";
+import type { IRabbitMqClient } from "./interface";
+import { OutboxRelayJob } from "./outbox-relay-job";
+import type { SequelizeOutbox } from "./sequelize-outbox";
+
+const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+
+/** Outbox relaying the given batch sizes, one per call */
+function fakeOutbox(batches: number[]) {
+  const calls: number[] = [];
+  const outbox = {
+    relay: async (_client: IRabbitMqClient, batchSize: number) => {
+      calls.push(batchSize);
+      return batches.shift() ?? 0;
+    },
+  };
+  return { outbox: outbox as unknown as SequelizeOutbox, calls };
+}
+
+describe("OutboxRelayJob", () => {
+  it("should relay batch after batch until a batch isn't full", async () => {
+    const { outbox, calls } = fakeOutbox([10, 10, 4, 10]);
+    const job = new OutboxRelayJob(outbox, {} as IRabbitMqClient, 1000, loggerFactory, 10);
+
+    await job.execute();
+
+    expect(calls).toEqual([10, 10, 10]);
+  });
+
+  it("should stop at the first failed relay", async () => {
+    const outbox = { relay: async () => { throw new Error("broker down"); } } as unknown as SequelizeOutbox;
+    const job = new OutboxRelayJob(outbox, {} as IRabbitMqClient, 1000, loggerFactory);
+
+    await expect(job.execute()).rejects.toThrow("broker down");
+  });
+});
@@ -0,0 +1,32 @@
+import { Job } from "../job-scheduler";
+import type { LoggerFactory } from "../logger";
+import type { IRabbitMqClient } from "./interface";
+import type { SequelizeOutbox } from "./sequelize-outbox";
+
+/** Publishes the pending events of the outbox at each interval, batch after batch until the outbox is empty */
+export class OutboxRelayJob extends Job {
+  name = "OutboxRelayJob";
+
+  /**
+   * @param outbox The outbox to relay
+   * @param client The client publishing the events, preferably with publisher confirms
+   * @param intervalMs The interval in milliseconds between the relays
+   * @param loggerFactory The logger factory to create scoped loggers.
+   * @param batchSize Events claimed per relay
+   */
+  constructor(
+    private readonly outbox: SequelizeOutbox,
+    private readonly client: IRabbitMqClient,
+    intervalMs: number,
+    loggerFactory: LoggerFactory,
+    private readonly batchSize = 100
+  ) {
+    super(intervalMs, loggerFactory);
+  }
+
+  async execute(): Promise<void> {
+    while (await this.outbox.relay(this.client, this.batchSize) === this.batchSize) {
+      // A full batch means more events may be pending
+    }
+  }
+}
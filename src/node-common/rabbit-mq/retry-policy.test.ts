@@ -0,0 +1,33 @@
+/**
+ * RabbitMQ retry policy tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { getRetryDelayMs, resolveRetryPolicy } from "./retry-policy";
+
+describe("resolveRetryPolicy", () => {
+  it("returns undefined without a policy", () => {
+    expect(resolveRetryPolicy(undefined, "order.created")).toBeUndefined();
+    expect(resolveRetryPolicy({ retryPolicies: { "order.created": { maxAttempts: 3 } } }, "user.created")).toBeUndefined();
+  });
+
+  it("prefers the routing key policy over the default one, with defaults", () => {
+    const options = { retry: { maxAttempts: 3 }, retryPolicies: { "order.created": { maxAttempts: 5, initialDelayMs: 200 } } };
+
+    expect(resolveRetryPolicy(options, "order.created")).toEqual({
+      maxAttempts: 5,
+      initialDelayMs: 200,
+      backoffMultiplier: 2,
+      maxDelayMs: 300000,
+    });
+    expect(resolveRetryPolicy(options, "user.created")?.maxAttempts).toBe(3);
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("grows exponentially up to the max delay", () => {
+    const policy = { maxAttempts: 10, initialDelayMs: 1000, backoffMultiplier: 3, maxDelayMs: 20000 };
+
+    expect([1, 2, 3, 4].map(attempt => getRetryDelayMs(policy, attempt))).toEqual([1000, 3000, 9000, 20000]);
+  });
+});
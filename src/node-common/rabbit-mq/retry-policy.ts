@@ -0,0 +1,36 @@
+import type { RabbitMqClientOptions, RetryPolicy } from "./types";
+
+/** Delivery attempt of the message, starting at 1 */
+export const ATTEMPT_HEADER = 'x-attempt';
+/** Routing key the message was published with, kept when it goes through the retry and dead-letter queues */
+export const ROUTING_KEY_HEADER = 'x-routing-key';
+/** Exchange the message was published to, kept when it goes through the retry and dead-letter queues */
+export const EXCHANGE_HEADER = 'x-exchange';
+export const ERROR_MESSAGE_HEADER = 'x-error-message';
+export const ERROR_STACK_HEADER = 'x-error-stack';
+export const FAILED_AT_HEADER = 'x-failed-at';
+
+const DEFAULT_INITIAL_DELAY_MS = 1000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** Returns the retry policy of the routing key, undefined if failed messages are not retried */
+export function resolveRetryPolicy(options: RabbitMqClientOptions | undefined, routingKey: string): Required<RetryPolicy> | undefined {
+  const policy = options?.retryPolicies?.[routingKey] ?? options?.retry;
+  if (!policy) {
+    return undefined;
+  }
+
+  return {
+    maxAttempts: policy.maxAttempts,
+    initialDelayMs: policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+    backoffMultiplier: policy.backoffMultiplier ?? DEFAULT_BACKOFF_MULTIPLIER,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+  };
+}
+
+/** Delay before retrying a message that failed its `attempt`-th delivery */
+export function getRetryDelayMs(policy: Required<RetryPolicy>, attempt: number): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  return Math.round(Math.min(delay, policy.maxDelayMs));
+}
@@ -0,0 +1,45 @@
+/**
+ * RabbitMQ routing tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { matchesBinding, matchesHeaders, matchesTopic } from "./routing";
+
+describe("matchesTopic", () => {
+  it("matches one word with * and zero or more words with #", () => {
+    expect(matchesTopic("order.*", "order.created")).toBe(true);
+    expect(matchesTopic("order.*", "order.created.eu")).toBe(false);
+    expect(matchesTopic("order.#", "order")).toBe(true);
+    expect(matchesTopic("order.#", "order.created.eu")).toBe(true);
+    expect(matchesTopic("*.created.#", "user.created")).toBe(true);
+    expect(matchesTopic("#.eu", "order.created.eu")).toBe(true);
+    expect(matchesTopic("#", "anything.at.all")).toBe(true);
+    expect(matchesTopic("order.created", "order.updated")).toBe(false);
+  });
+});
+
+describe("matchesHeaders", () => {
+  it("requires all the arguments by default, any with x-match any", () => {
+    const headers = { region: "eu", tier: "gold", "x-attempt": 2 };
+
+    expect(matchesHeaders({ region: "eu", tier: "gold" }, headers)).toBe(true);
+    expect(matchesHeaders({ "x-match": "all", region: "eu", tier: "silver" }, headers)).toBe(false);
+    expect(matchesHeaders({ "x-match": "any", region: "us", tier: "gold" }, headers)).toBe(true);
+    expect(matchesHeaders({ "x-match": "any", region: "us" }, headers)).toBe(false);
+  });
+
+  it("ignores x- arguments unless the mode is -with-x", () => {
+    expect(matchesHeaders({ "x-attempt": 3, region: "eu" }, { region: "eu", "x-attempt": 2 })).toBe(true);
+    expect(matchesHeaders({ "x-match": "all-with-x", "x-attempt": 3 }, { "x-attempt": 2 })).toBe(false);
+  });
+});
+
+describe("matchesBinding", () => {
+  it("applies the rules of the exchange type", () => {
+    expect(matchesBinding("direct", { routingKey: "order.created" }, "order.created")).toBe(true);
+    expect(matchesBinding("direct", { routingKey: "order.*" }, "order.created")).toBe(false);
+    expect(matchesBinding("topic", { routingKey: "order.*" }, "order.created")).toBe(true);
+    expect(matchesBinding("fanout", { routingKey: "" }, "order.created")).toBe(true);
+    expect(matchesBinding("headers", { routingKey: "", bindingArguments: { region: "eu" } }, "x", { region: "eu" })).toBe(true);
+  });
+});
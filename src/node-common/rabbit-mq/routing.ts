@@ -0,0 +1,65 @@
+import type { ExchangeType } from "./types";
+
+/** Binding of a queue to an exchange */
+export interface RoutingBinding {
+  /** Routing key of direct exchanges, pattern of topic exchanges, ignored by fanout and headers exchanges */
+  routingKey: string;
+  /** Arguments of headers exchanges, e.g. `{ "x-match": "any", region: "eu" }` */
+  bindingArguments?: Record<string, any>;
+}
+
+/**
+ * Returns true if the exchange routes a message with the routing key and the headers through the binding,
+ * with the rules of the broker for each exchange type.
+ */
+export function matchesBinding(
+  exchangeType: ExchangeType,
+  binding: RoutingBinding,
+  routingKey: string,
+  headers: Record<string, any> = {}
+): boolean {
+  switch (exchangeType) {
+    case 'direct':
+      return binding.routingKey === routingKey;
+    case 'topic':
+      return matchesTopic(binding.routingKey, routingKey);
+    case 'fanout':
+      return true;
+    case 'headers':
+      return matchesHeaders(binding.bindingArguments ?? {}, headers);
+  }
+}
+
+/** Matches a routing key against a topic pattern: `*` stands for one word, `#` for zero or more words */
+export function matchesTopic(pattern: string, routingKey: string): boolean {
+  return matchWords(pattern.split('.'), routingKey.split('.'));
+}
+
+/**
+ * Matches the headers against the arguments of a headers binding.
+ * `x-match` is `all` (default) or `any`; arguments starting with `x-` are only compared with `all-with-x` and `any-with-x`.
+ * An argument without value matches any header with the same name.
+ */
+export function matchesHeaders(bindingArguments: Record<string, any>, headers: Record<string, any>): boolean {
+  const mode = String(bindingArguments['x-match'] ?? 'all');
+  const withX = mode.endsWith('-with-x');
+  const expected = Object.entries(bindingArguments)
+    .filter(([name]) => name !== 'x-match' && (withX || !name.startsWith('x-')));
+
+  const matches = ([name, value]: [string, any]) =>
+    name in headers && (value === undefined || value === null || headers[name] === value);
+  return mode.startsWith('any') ? expected.some(matches) : expected.every(matches);
+}
+
+function matchWords(pattern: string[], words: string[]): boolean {
+  if (pattern.length === 0) {
+    return words.length === 0;
+  }
+
+  const [head, ...rest] = pattern;
+  if (head === '#') {
+    // # matches zero words, or consumes one and stays
+    return matchWords(rest, words) || (words.length > 0 && matchWords(pattern, words.slice(1)));
+  }
+  return words.length > 0 && (head === '*' || head === words[0]) && matchWords(rest, words.slice(1));
+}
@@ -0,0 +1,179 @@
+/**
+ * Transactional outbox tests, against an in-memory fake of the outbox table
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Sequelize } from "sequelize";
+import { LoggerFactory } from "../logger";
+import type { IRabbitMqClient } from "./interface";
+import { SequelizeOutbox } from "./sequelize-outbox";
+import type { PublishOptions, RabbitMqEventBase } from "./types";
+
+interface Row {
+  id: string;
+  payload: RabbitMqEventBase;
+  attempts: number;
+  correlationId: string | null;
+  traceparent: string | null;
+  tracestate: string | null;
+  lastError?: string;
+  lockedUntil?: Date;
+  parkedAt?: Date;
+  publishedAt?: Date;
+}
+
+/** Runs the queries of the outbox on an array of rows */
+function fakeSequelize() {
+  const rows: Row[] = [];
+  let inTransaction = false;
+
+  const query = async (sql: string, options: { replacements?: any } = {}) => {
+    const params = options.replacements ?? {};
+    const byIds = (ids: string[]) => rows.filter(row => ids.includes(row.id));
+
+    if (sql.includes("INSERT INTO")) {
+      const { id, payload, correlationId, traceparent, tracestate } = params;
+      rows.push({ id, payload: JSON.parse(payload), attempts: 0, correlationId, traceparent, tracestate });
+      return [];
+    }
+    if (sql.includes("FOR UPDATE SKIP LOCKED")) {
+      return rows
+        .filter(row => !row.publishedAt && !row.parkedAt && (!row.lockedUntil || row.lockedUntil <= new Date()))
+        .slice(0, params.batchSize)
+        .map(({ id, payload, attempts, correlationId, traceparent, tracestate }) =>
+          ({ id, payload, attempts, correlationId, traceparent, tracestate }));
+    }
+    if (sql.includes(`SET "lockedUntil" = :lockedUntil`)) {
+      byIds(params.ids).forEach(row => row.lockedUntil = params.lockedUntil);
+    } else if (sql.includes(`SET "lockedUntil" = NULL`)) {
+      byIds(params.ids).forEach(row => row.lockedUntil = undefined);
+    } else if (sql.includes(`SET "publishedAt" = now()`)) {
+      byIds([params.id]).forEach(row => Object.assign(row, { publishedAt: new Date(), lockedUntil: undefined }));
+    } else if (sql.includes(`SET "attempts" = :attempts`)) {
+      byIds([params.id]).forEach(row => Object.assign(row, {
+        attempts: params.attempts,
+        lastError: params.lastError,
+        lockedUntil: undefined,
+        parkedAt: sql.includes(`"parkedAt" = now()`) ? new Date() : undefined,
+      }));
+    } else if (sql.includes(`SET "parkedAt" = NULL`)) {
+      rows.filter(row => row.parkedAt && (!params.ids || params.ids.includes(row.id)))
+        .forEach(row => Object.assign(row, { parkedAt: undefined, attempts: 0 }));
+    } else if (sql.includes(`WHERE "parkedAt" IS NOT NULL`)) {
+      return rows.filter(row => row.parkedAt);
+    }
+    return [];
+  };
+
+  const transaction = async (callback: (transaction: object) => Promise<unknown>) => {
+    inTransaction = true;
+    try {
+      return await callback({});
+    } finally {
+      inTransaction = false;
+    }
+  };
+
+  return { sequelize: { query, transaction } as unknown as Sequelize, rows, isInTransaction: () => inTransaction };
+}
+
+/** Client failing the publishes of the events named in `failing` */
+function fakeClient(isInTransaction: () => boolean, failing: string[] = [], connected = true) {
+  const published: string[] = [];
+  const options: PublishOptions[] = [];
+  const client: IRabbitMqClient = {
+    init: async () => { },
+    isConnected: () => connected,
+    publishIntegrationEvent: async (event: RabbitMqEventBase, publishOptions?: PublishOptions) => {
+      // Publishes must not hold the row locks
+      expect(isInTransaction()).toBe(false);
+      if (failing.includes(event.name)) throw new Error(`${event.name} rejected`);
+      published.push(event.name);
+      options.push(publishOptions!);
+    },
+    registerEventHandler: async () => { },
+    handleIntegrationEvent: async () => { },
+  };
+  return { client, published, options };
+}
+
+describe("SequelizeOutbox", () => {
+  it("should publish the pending events in order and mark them as published", async () => {
+    const { sequelize, rows, isInTransaction } = fakeSequelize();
+    const outbox = new SequelizeOutbox(sequelize);
+    const { client, published } = fakeClient(isInTransaction);
+
+    for (const name of ["a", "b", "c"]) {
+      await outbox.add({ name });
+    }
+
+    expect(await outbox.relay(client, 2)).toBe(2);
+    expect(await outbox.relay(client, 2)).toBe(1);
+    expect(await outbox.relay(client, 2)).toBe(0);
+    expect(published).toEqual(["a", "b", "c"]);
+    expect(rows.every(row => row.publishedAt && !row.lockedUntil)).toBe(true);
+  });
+
+  it("should stop at the first failure, record it and release the rest of the batch", async () => {
+    const { sequelize, rows, isInTransaction } = fakeSequelize();
+    const outbox = new SequelizeOutbox(sequelize);
+    const { client, published } = fakeClient(isInTransaction, ["b"]);
+
+    for (const name of ["a", "b", "c"]) {
+      await outbox.add({ name });
+    }
+
+    await expect(outbox.relay(client)).rejects.toThrow("b rejected");
+    expect(published).toEqual(["a"]);
+    expect(rows[1]).toMatchObject({ attempts: 1, lastError: "b rejected" });
+    expect(rows.some(row => row.lockedUntil)).toBe(false);
+  });
+
+  it("should park an event after maxAttempts, and relay the next ones", async () => {
+    const { sequelize, rows, isInTransaction } = fakeSequelize();
+    const outbox = new SequelizeOutbox(sequelize, "OutboxMessages", { maxAttempts: 2 });
+    const { client, published } = fakeClient(isInTransaction, ["poison"]);
+
+    await outbox.add({ name: "poison" });
+    await outbox.add({ name: "next" });
+
+    await expect(outbox.relay(client)).rejects.toThrow("poison rejected");
+    await expect(outbox.relay(client)).rejects.toThrow("parked after 2 failed attempts");
+    expect(published).toEqual(["next"]);
+    expect(rows[0]!.parkedAt).toBeDefined();
+    expect(await outbox.getParked()).toHaveLength(1);
+
+    await outbox.requeueParked();
+    expect(rows[0]).toMatchObject({ parkedAt: undefined, attempts: 0 });
+  });
+
+  it("should not count the failures while the client is disconnected", async () => {
+    const { sequelize, rows, isInTransaction } = fakeSequelize();
+    const outbox = new SequelizeOutbox(sequelize, "OutboxMessages", { maxAttempts: 1 });
+    const { client } = fakeClient(isInTransaction, ["a"], false);
+
+    await outbox.add({ name: "a" });
+
+    await expect(outbox.relay(client)).rejects.toThrow("a rejected");
+    expect(rows[0]).toMatchObject({ attempts: 0, parkedAt: undefined });
+  });
+
+  it("should publish the events in the trace that added them, with their correlation id", async () => {
+    const { sequelize, isInTransaction } = fakeSequelize();
+    const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+    const outbox = new SequelizeOutbox(sequelize, "OutboxMessages", { loggerFactory });
+    const { client, options } = fakeClient(isInTransaction);
+    const trace = { traceId: "0af7651916cd43dd", spanId: "b7ad6b7169203331", flags: 1, traceState: "vendor=1" };
+
+    const id = await loggerFactory.getTraceContextStore().run(trace, () => outbox.add({ name: "a" }, undefined, { correlationId: "order-1" }));
+    await outbox.add({ name: "b" });
+    await outbox.relay(client);
+
+    expect(options[0]).toEqual({
+      messageId: id,
+      correlationId: "order-1",
+      headers: { traceparent: "00-0af7651916cd43dd-b7ad6b7169203331-01", tracestate: "vendor=1" },
+    });
+    expect(options[1]).toMatchObject({ correlationId: undefined, headers: {} });
+  });
+});
@@ -0,0 +1,242 @@
+import { QueryTypes, type Sequelize, type Transaction } from "sequelize";
+import { type LoggerFactory, TracingPropagator } from "../logger";
+import { UUID } from "../uuid";
+import { TRACE_PARENT_HEADER, TRACE_STATE_HEADER } from "./envelope";
+import type { IRabbitMqClient } from "./interface";
+import type { PublishOptions, RabbitMqEventBase } from "./types";
+
+const DEFAULT_TABLE_NAME = "OutboxMessages";
+const DEFAULT_MAX_ATTEMPTS = 10;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+export interface SequelizeOutboxOptions {
+  /** Failed publishes after which an event is parked: it is no longer relayed, so it doesn't hold back the next ones.
+   * Failures while the client is disconnected are not counted
+   * @default 10
+   */
+  maxAttempts?: number;
+  /** How long the events claimed by a relay are hidden from the other relays. Must exceed the publish time of a batch
+   * @default 5 minutes
+   */
+  leaseMs?: number;
+  /** Logger factory whose trace context is captured with the events, so they are published in the trace that raised them */
+  loggerFactory?: LoggerFactory;
+}
+
+export interface OutboxAddOptions {
+  /** Correlation id published with the event */
+  correlationId?: string;
+}
+
+/** An event waiting in the outbox */
+export interface OutboxMessage {
+  /** Id of the event, published as the message id */
+  id: string;
+  payload: RabbitMqEventBase;
+  /** Failed publish attempts */
+  attempts: number;
+  correlationId: string | null;
+  /** Trace context of the transaction that added the event */
+  traceparent: string | null;
+  tracestate: string | null;
+}
+
+/** An event no longer relayed after too many failed attempts */
+export interface ParkedOutboxMessage extends OutboxMessage {
+  /** Error of the last attempt */
+  lastError: string;
+  parkedAt: Date;
+}
+
+/**
+ * Transactional outbox: events are written in the database transaction of the changes that raised them,
+ * then published by a relay, e.g. the `OutboxRelayJob`. An event is published if and only if the transaction commits.
+ *
+ * Delivery is at least once: an event can be published again if the relay stops before marking it as published.
+ * The outbox id is sent as the message id, so consumers can detect the duplicates.
+ */
+export class SequelizeOutbox {
+  private readonly tableName: string;
+  private readonly maxAttempts: number;
+  private readonly leaseMs: number;
+  private readonly propagator: TracingPropagator | undefined;
+
+  constructor(private readonly sequelize: Sequelize, tableName: string = DEFAULT_TABLE_NAME, options: SequelizeOutboxOptions = {}) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid outbox table name: ${tableName}`);
+    }
+    this.tableName = tableName;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.propagator = options.loggerFactory ? new TracingPropagator(options.loggerFactory.getTraceContextStore()) : undefined;
+  }
+
+  /** Creates the table if it doesn't exist */
+  async init(): Promise<void> {
+    await this.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS "${this.tableName}" (
+        "id" UUID PRIMARY KEY,
+        "eventName" TEXT NOT NULL,
+        "payload" JSONB NOT NULL,
+        "attempts" INTEGER NOT NULL DEFAULT 0,
+        "lastError" TEXT,
+        "correlationId" TEXT,
+        "traceparent" TEXT,
+        "tracestate" TEXT,
+        "createdAt" TIMESTAMPTZ NOT NULL DEFAULT now(),
+        "lockedUntil" TIMESTAMPTZ,
+        "parkedAt" TIMESTAMPTZ,
+        "publishedAt" TIMESTAMPTZ
+      );
+    `);
+    await this.sequelize.query(`
+      CREATE INDEX IF NOT EXISTS "${this.tableName}_pending" ON "${this.tableName}" ("createdAt", "id")
+        WHERE "publishedAt" IS NULL AND "parkedAt" IS NULL;
+    `);
+  }
+
+  /**
+   * Writes the event to the outbox and returns its id.
+   * The current trace context is stored with the event.
+   * @param transaction The transaction of the changes raising the event
+   */
+  async add(event: RabbitMqEventBase, transaction?: Transaction, options: OutboxAddOptions = {}): Promise<string> {
+    // v7 ids are time ordered, so events written in the same transaction keep their order
+    const id = UUID.getV7();
+    const trace = this.propagator?.buildOutboundHeaders() ?? {};
+    await this.sequelize.query(
+      `INSERT INTO "${this.tableName}" ("id", "eventName", "payload", "correlationId", "traceparent", "tracestate")
+       VALUES (:id, :eventName, CAST(:payload AS JSONB), :correlationId, :traceparent, :tracestate)`,
+      {
+        replacements: {
+          id,
+          eventName: event.name,
+          payload: JSON.stringify(event),
+          correlationId: options.correlationId ?? null,
+          traceparent: trace[TRACE_PARENT_HEADER] ?? null,
+          tracestate: trace[TRACE_STATE_HEADER] ?? null
+        },
+        transaction
+      }
+    );
+    return id;
+  }
+
+  /**
+   * Publishes up to `batchSize` pending events, in creation order, and returns the number of published events.
+   * The events are claimed for `leaseMs` in a short transaction (SKIP LOCKED), so several relays can run at the same time,
+   * and published outside of it.
+   *
+   * Stops at the first failure to keep the order, records it on the event, releases the rest of the batch and throws the error.
+   * An event reaching `maxAttempts` is parked instead, and the relay goes on with the next events before throwing.
+   */
+  async relay(client: IRabbitMqClient, batchSize = 100): Promise<number> {
+    const messages = await this.claim(batchSize);
+    let published = 0;
+    let parkedFailure: Error | undefined;
+
+    for (const [index, message] of messages.entries()) {
+      try {
+        await client.publishIntegrationEvent(message.payload, this.getPublishOptions(message));
+      } catch (error) {
+        // Failures while disconnected don't tell anything about the event
+        const attempts = message.attempts + (client.isConnected() ? 1 : 0);
+        const parked = attempts >= this.maxAttempts;
+        await this.sequelize.query(
+          `UPDATE "${this.tableName}"
+           SET "attempts" = :attempts, "lastError" = :lastError, "lockedUntil" = NULL, "parkedAt" = ${parked ? "now()" : "NULL"}
+           WHERE "id" = :id`,
+          { replacements: { id: message.id, attempts, lastError: error instanceof Error ? error.message : String(error) } }
+        );
+
+        if (!parked) {
+          await this.release(messages.slice(index + 1));
+          throw error;
+        }
+        parkedFailure ??= new Error(`Outbox event ${message.id} parked after ${attempts} failed attempts`, { cause: error });
+        continue;
+      }
+
+      await this.sequelize.query(
+        `UPDATE "${this.tableName}" SET "publishedAt" = now(), "lockedUntil" = NULL WHERE "id" = :id`,
+        { replacements: { id: message.id } }
+      );
+      published++;
+    }
+
+    if (parkedFailure) {
+      throw parkedFailure;
+    }
+    return published;
+  }
+
+  /** Returns up to `limit` parked events, oldest first */
+  async getParked(limit = 100): Promise<ParkedOutboxMessage[]> {
+    return this.sequelize.query<ParkedOutboxMessage>(
+      `SELECT "id", "payload", "attempts", "correlationId", "traceparent", "tracestate", "lastError", "parkedAt" FROM "${this.tableName}"
+       WHERE "parkedAt" IS NOT NULL AND "publishedAt" IS NULL
+       ORDER BY "createdAt", "id"
+       LIMIT :limit`,
+      { replacements: { limit }, type: QueryTypes.SELECT }
+    );
+  }
+
+  /** Puts parked events back in the outbox with a new attempt count, all of them if no id is given */
+  async requeueParked(ids?: string[]): Promise<void> {
+    if (ids?.length === 0) return;
+
+    await this.sequelize.query(
+      `UPDATE "${this.tableName}" SET "parkedAt" = NULL, "attempts" = 0
+       WHERE "parkedAt" IS NOT NULL AND "publishedAt" IS NULL${ids ? ` AND "id" IN (:ids)` : ""}`,
+      { replacements: ids ? { ids } : {} }
+    );
+  }
+
+  /** Deletes the events published more than `olderThanMs` ago. Run it periodically, e.g. from a Job */
+  async deleteRelayed(olderThanMs: number): Promise<void> {
+    await this.sequelize.query(
+      `DELETE FROM "${this.tableName}" WHERE "publishedAt" < :before`,
+      { replacements: { before: new Date(Date.now() - olderThanMs) } }
+    );
+  }
+
+  /** Claims the next pending events, in creation order, for the lease duration */
+  private async claim(batchSize: number): Promise<OutboxMessage[]> {
+    return this.sequelize.transaction(async transaction => {
+      const messages = await this.sequelize.query<OutboxMessage>(
+        `SELECT "id", "payload", "attempts", "correlationId", "traceparent", "tracestate" FROM "${this.tableName}"
+         WHERE "publishedAt" IS NULL AND "parkedAt" IS NULL AND ("lockedUntil" IS NULL OR "lockedUntil" <= now())
+         ORDER BY "createdAt", "id"
+         LIMIT :batchSize
+         FOR UPDATE SKIP LOCKED`,
+        { replacements: { batchSize }, type: QueryTypes.SELECT, transaction }
+      );
+
+      if (messages.length > 0) {
+        await this.sequelize.query(
+          `UPDATE "${this.tableName}" SET "lockedUntil" = :lockedUntil WHERE "id" IN (:ids)`,
+          { replacements: { ids: messages.map(message => message.id), lockedUntil: new Date(Date.now() + this.leaseMs) }, transaction }
+        );
+      }
+      return messages;
+    });
+  }
+
+  /** Publishes the event with its correlation id, in the trace that added it rather than the trace of the relay */
+  private getPublishOptions(message: OutboxMessage): PublishOptions {
+    const headers: Record<string, string> = {};
+    if (message.traceparent) headers[TRACE_PARENT_HEADER] = message.traceparent;
+    if (message.tracestate) headers[TRACE_STATE_HEADER] = message.tracestate;
+    return { messageId: message.id, correlationId: message.correlationId ?? undefined, headers };
+  }
+
+  /** Gives the claimed events back to the next relay */
+  private async release(messages: OutboxMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+
+    await this.sequelize.query(
+      `UPDATE "${this.tableName}" SET "lockedUntil" = NULL WHERE "id" IN (:ids)`,
+      { replacements: { ids: messages.map(message => message.id) } }
+    );
+  }
+}
@@ -3,10 +3,168 @@ export interface RabbitMqEventBase {
   name: string
 }
 
+export type ExchangeType = "direct" | "topic" | "fanout" | "headers";
+
+/** An exchange consumed from, besides the client exchange */
+export interface ExchangeConfig {
+  name: string;
+  type: ExchangeType;
+  /** @default true */
+  durable?: boolean;
+}
+
+/** Binding of an event handler */
+export interface EventHandlerOptions {
+  /** Exchange to consume from, the client exchange or one of the `exchanges` option
+   * @default the client exchange
+   */
+  exchange?: string;
+  /** Arguments of the binding to a headers exchange, e.g. `{ "x-match": "any", region: "eu" }` */
+  bindingArguments?: Record<string, any>;
+}
+
 export interface QueueConfig {
   name?: string;
   exclusive?: boolean;
   durable?: boolean;
   autoDelete?: boolean;
   arguments?: any;
-}
\ No newline at end of file
+}
+
+/** Retry policy of the messages whose handler failed */
+export interface RetryPolicy {
+  /** Total deliveries, including the first one. Messages still failing are sent to the dead-letter queue */
+  maxAttempts: number;
+  /** Delay before the first retry
+   * @default 1000
+   */
+  initialDelayMs?: number;
+  /** Factor applied to the delay at each retry
+   * @default 2
+   */
+  backoffMultiplier?: number;
+  /** @default 300000 (5 minutes) */
+  maxDelayMs?: number;
+}
+
+export interface RabbitMqClientOptions {
+  /** Type of the client exchange. An existing exchange keeps its type, the broker rejects a different one
+   * @default "direct"
+   */
+  exchangeType?: ExchangeType;
+  /** Other exchanges the handlers can consume from, asserted on connection */
+  exchanges?: ExchangeConfig[];
+  /** Retry policy of every routing key. Without a policy, failed messages are dropped */
+  retry?: RetryPolicy;
+  /** Retry policies by routing key, replacing the default one */
+  retryPolicies?: Record<string, RetryPolicy>;
+  /** Exchange receiving the messages out of attempts
+   * @default `${exchange}.dlx`
+   */
+  deadLetterExchange?: string;
+  /** Publishes on a confirm channel: publishes resolve once the broker has taken responsibility for the message,
+   * and throw if it rejects the message or doesn't confirm it in time
+   * @default false
+   */
+  publisherConfirms?: boolean;
+  /** How long a publish waits for the broker confirm
+   * @default 10000
+   */
+  confirmTimeoutMs?: number;
+  /** Max unacknowledged messages delivered to the consumer. Unbounded if not set */
+  prefetch?: number;
+  /** Max messages processed at the same time, the others wait in memory. Unbounded if not set */
+  maxConcurrency?: number;
+  /** Key of the messages processed sequentially, in delivery order, e.g. the aggregate id.
+   * Messages without a key (undefined) are processed concurrently
+   */
+  orderingKey?: (eventContent: any, routingKey: string) => string | number | undefined;
+  /** Name of the publishing application, sent as the `appId` of the messages */
+  producer?: string;
+  /** Current schema version of the published events, by event name. Events not listed are published as version 1 */
+  schemaVersions?: Record<string, number>;
+  /** Migrations of the consumed events from their old schema versions */
+  upcasters?: EventUpcaster[];
+}
+
+/** Metadata of a message, written to the AMQP properties and headers */
+export interface MessageEnvelope {
+  messageId?: string;
+  /** Id shared by the messages of the same flow, e.g. the id of the command that caused them */
+  correlationId?: string;
+  /** Publish time, with a precision of one second */
+  timestamp?: Date;
+  /** Application that published the message */
+  producer?: string;
+  /** Event name */
+  type: string;
+  /** Schema version the event was published with */
+  schemaVersion: number;
+  /** W3C trace context of the publisher */
+  traceparent?: string;
+  tracestate?: string;
+  headers: Record<string, any>;
+}
+
+/** Migrates an event of `eventName` from `fromVersion` to `fromVersion + 1` */
+export interface EventUpcaster {
+  eventName: string;
+  fromVersion: number;
+  upcast: (event: any) => any;
+}
+
+/** Handler of an event. The envelope carries the metadata of the message */
+export type EventHandler<TEvent> = (eventContent: TEvent, envelope: MessageEnvelope) => Promise<void>;
+
+/** Counters of the consumer */
+export interface ConsumerMetrics {
+  /** Messages whose handlers are running */
+  inFlight: number;
+  /** Messages received, waiting for a free slot or for the previous message with the same ordering key */
+  queued: number;
+  /** Messages processed and acked since the start */
+  processed: number;
+  /** Messages whose handlers failed since the start */
+  failed: number;
+  /** Ordering keys with messages queued or in flight */
+  orderingKeys: number;
+}
+
+export interface PublishOptions {
+  /** @default the client exchange */
+  exchange?: string;
+  /** Id of the message, e.g. for deduplication by the consumers
+   * @default a UUID v7
+   */
+  messageId?: string;
+  correlationId?: string;
+  headers?: Record<string, any>;
+}
+
+/** A message of the dead-letter queue */
+export interface DeadLetterMessage<TEvent = any> {
+  /** Exchange the message was published to */
+  exchange: string;
+  routingKey: string;
+  /** Parsed content, or the raw text when the message is not valid JSON (see `invalidContent`) */
+  content: TEvent | string;
+  /** True when the content is not valid JSON, e.g. a message dead-lettered because it couldn't be parsed */
+  invalidContent: boolean;
+  /** Deliveries before the message was dead-lettered */
+  attempts: number;
+  error: {
+    message?: string;
+    stack?: string;
+  };
+  failedAt?: Date;
+  headers: Record<string, any>;
+}
+
+export interface ReplayDeadLettersOptions {
+  /** Max number of dead-lettered messages read
+   * @default 100
+   */
+  limit?: number;
+  /** Replays only the matching messages, the others stay in the dead-letter queue */
+  filter?: (message: DeadLetterMessage) => boolean;
+}
@@ -0,0 +1,43 @@
+/**
+ * Rate limit algorithms tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { fixedWindow, slidingWindow, tokenBucket, type RateLimitAlgorithmImpl, type RateLimitPolicy } from "./algorithms";
+
+const policy: RateLimitPolicy = { limit: 2, windowMs: 1000, burst: 2 };
+
+/** Runs a request at each of the given times, threading the state, and returns the outcomes */
+function run(algorithm: RateLimitAlgorithmImpl<any>, times: number[], ratePolicy = policy) {
+  let state: object | undefined;
+  return times.map(now => {
+    const outcome = algorithm.consume(state, ratePolicy, now);
+    state = outcome.state;
+    return outcome.result;
+  });
+}
+
+describe("rate limit algorithms", () => {
+  it("fixed window should reset the count at the end of the window", () => {
+    const results = run(fixedWindow, [0, 100, 200, 1000]);
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false, true]);
+    expect(results[1]).toMatchObject({ remaining: 0, resetMs: 900 });
+    expect(results[2]?.retryAfterMs).toBe(800);
+  });
+
+  it("sliding window should weight the previous window", () => {
+    // Two requests at the end of the first window still count for half at the middle of the second one
+    const results = run(slidingWindow, [900, 950, 1500, 1600]);
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[3]?.retryAfterMs).toBe(400);
+  });
+
+  it("token bucket should refill tokens over time up to the burst", () => {
+    const results = run(tokenBucket, [0, 0, 0, 500, 500], { limit: 2, windowMs: 1000, burst: 2 });
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, false, true, false]);
+    expect(results[2]?.retryAfterMs).toBe(500);
+  });
+});
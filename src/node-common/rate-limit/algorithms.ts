@@ -0,0 +1,127 @@
+import type { RateLimitAlgorithm, RateLimitResult } from "./models";
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+  /** Token bucket capacity */
+  burst: number;
+}
+
+/** A rate limit algorithm: computes the new state and the outcome of a request */
+export interface RateLimitAlgorithmImpl<TState extends object> {
+  /** Time the state of a key must be kept */
+  ttlMs(policy: RateLimitPolicy): number;
+  consume(state: TState | undefined, policy: RateLimitPolicy, now: number): { state: TState; result: RateLimitResult };
+}
+
+interface FixedWindowState {
+  windowStart: number;
+  count: number;
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Counts the requests in fixed windows. Simple, but allows up to twice the limit around window boundaries */
+export const fixedWindow: RateLimitAlgorithmImpl<FixedWindowState> = {
+  ttlMs: policy => policy.windowMs,
+  consume: (state, { limit, windowMs }, now) => {
+    const current = state && now < state.windowStart + windowMs ? state : { windowStart: now, count: 0 };
+    const allowed = current.count < limit;
+    const next = allowed ? { ...current, count: current.count + 1 } : current;
+    const resetMs = next.windowStart + windowMs - now;
+
+    return {
+      state: next,
+      result: { allowed, limit, remaining: limit - next.count, resetMs, retryAfterMs: allowed ? 0 : resetMs },
+    };
+  },
+};
+
+/** Weights the count of the previous window by its overlap with the sliding window, smoothing the boundary bursts */
+export const slidingWindow: RateLimitAlgorithmImpl<SlidingWindowState> = {
+  ttlMs: policy => policy.windowMs * 2,
+  consume: (state, { limit, windowMs }, now) => {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    let current: SlidingWindowState;
+    if (state?.windowStart === windowStart) {
+      current = state;
+    } else {
+      const previousCount = state?.windowStart === windowStart - windowMs ? state.count : 0;
+      current = { windowStart, count: 0, previousCount };
+    }
+
+    const elapsed = now - windowStart;
+    const estimate = current.previousCount * (1 - elapsed / windowMs) + current.count;
+    const allowed = estimate + 1 <= limit;
+    const next = allowed ? { ...current, count: current.count + 1 } : current;
+    const resetMs = windowStart + windowMs - now;
+
+    return {
+      state: next,
+      result: {
+        allowed,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimate - (allowed ? 1 : 0))),
+        resetMs,
+        retryAfterMs: allowed ? 0 : slidingRetryAfter(next, limit, windowMs, elapsed),
+      },
+    };
+  },
+};
+
+/** Refills `limit` tokens per window up to `burst`, each request takes a token */
+export const tokenBucket: RateLimitAlgorithmImpl<TokenBucketState> = {
+  ttlMs: policy => Math.ceil(policy.burst / refillRate(policy)),
+  consume: (state, policy, now) => {
+    const rate = refillRate(policy);
+    const available = state
+      ? Math.min(policy.burst, state.tokens + (now - state.updatedAt) * rate)
+      : policy.burst;
+    const allowed = available >= 1;
+    const tokens = allowed ? available - 1 : available;
+
+    return {
+      state: { tokens, updatedAt: now },
+      result: {
+        allowed,
+        limit: policy.burst,
+        remaining: Math.floor(tokens),
+        resetMs: Math.ceil((policy.burst - tokens) / rate),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+      },
+    };
+  },
+};
+
+export const RATE_LIMIT_ALGORITHMS: { [algorithm in RateLimitAlgorithm]: RateLimitAlgorithmImpl<any> } = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
+
+/** Tokens per millisecond */
+function refillRate(policy: RateLimitPolicy): number {
+  return policy.limit / policy.windowMs;
+}
+
+/** Time until the weighted estimate leaves room for one more request */
+function slidingRetryAfter(state: SlidingWindowState, limit: number, windowMs: number, elapsed: number): number {
+  if (state.count + 1 <= limit && state.previousCount > 0) {
+    // Allowed later in the current window, once enough of the previous window slides out
+    const requiredElapsed = windowMs * (1 - (limit - state.count - 1) / state.previousCount);
+    return Math.ceil(requiredElapsed - elapsed);
+  }
+
+  // Allowed in the next window, once enough of the current window slides out
+  const requiredElapsed = windowMs * (1 - (limit - 1) / state.count);
+  return Math.ceil(windowMs - elapsed + Math.max(0, requiredElapsed));
+}
@@ -0,0 +1,5 @@
+export * from "./algorithms";
+export * from "./memory-rate-limit-store";
+export * from "./models";
+export * from "./rate-limit-middleware";
+export * from "./sequelize-rate-limit-store";
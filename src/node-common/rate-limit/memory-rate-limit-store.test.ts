@@ -0,0 +1,38 @@
+/**
+ * Memory rate limit store tests
+ */
+
+import { afterAll, afterEach, describe, expect, it, setSystemTime } from "bun:test";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store";
+
+const increment = (state: { count: number } | undefined) => {
+  const count = (state?.count ?? 0) + 1;
+  return { state: { count }, result: count };
+};
+
+describe("MemoryRateLimitStore", () => {
+  const store = new MemoryRateLimitStore();
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  afterAll(() => {
+    store.close();
+  });
+
+  it("should thread the state of each key", async () => {
+    expect(await store.update("a", 1000, increment)).toBe(1);
+    expect(await store.update("a", 1000, increment)).toBe(2);
+    expect(await store.update("b", 1000, increment)).toBe(1);
+  });
+
+  it("should start over once the state is expired", async () => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    await store.update("expiring", 1000, increment);
+    expect(await store.update("expiring", 1000, increment)).toBe(2);
+
+    setSystemTime(new Date("2026-01-01T00:00:01Z"));
+    expect(await store.update("expiring", 1000, increment)).toBe(1);
+  });
+});
@@ -0,0 +1,44 @@
+import type { RateLimitStore } from "./models";
+
+const DEFAULT_CLEANUP_INTERVAL_MS = 60000;
+
+/** Keeps the rate limit state in memory. Limits are per instance, use a shared store for multi-instance deployments */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { state: object; expiresAt: number }>();
+  private readonly cleanupInterval: ReturnType<typeof setInterval>;
+
+  /** @param cleanupIntervalMs Interval at which expired keys are removed */
+  constructor(cleanupIntervalMs = DEFAULT_CLEANUP_INTERVAL_MS) {
+    this.cleanupInterval = setInterval(() => this.deleteExpired(), cleanupIntervalMs);
+    // The cleanup must not keep the process alive
+    this.cleanupInterval.unref?.();
+  }
+
+  async update<TState extends object, TResult>(
+    key: string,
+    ttlMs: number,
+    fn: (state: TState | undefined) => { state: TState; result: TResult }
+  ): Promise<TResult> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? entry.state as TState : undefined;
+
+    const { state, result } = fn(current);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    return result;
+  }
+
+  /** Stops the periodic cleanup */
+  close(): void {
+    clearInterval(this.cleanupInterval);
+  }
+
+  private deleteExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
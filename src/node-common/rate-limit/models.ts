@@ -0,0 +1,62 @@
+import type { BunApiServerRequest } from "../api-server";
+
+export type RateLimitAlgorithm = "fixed-window" | "sliding-window" | "token-bucket";
+
+/** Identifies the client a request is counted for. Returning undefined skips the rate limit for the request */
+export type RateLimitKeyBy = "ip" | "jwt-subject" | ((req: BunApiServerRequest) => string | undefined | Promise<string | undefined>);
+
+/** Outcome of a rate limited request */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Time until the limit is fully restored */
+  resetMs: number;
+  /** Time until the next request is allowed, 0 if allowed */
+  retryAfterMs: number;
+}
+
+/** Persists the algorithm state of each key */
+export interface RateLimitStore {
+  /**
+   * Atomically applies `fn` to the state of the key and stores the new state for `ttlMs`.
+   * `fn` receives undefined when the key doesn't exist or is expired.
+   */
+  update<TState extends object, TResult>(
+    key: string,
+    ttlMs: number,
+    fn: (state: TState | undefined) => { state: TState; result: TResult }
+  ): Promise<TResult>;
+}
+
+export interface RateLimitOptions {
+  /** @default "fixed-window" */
+  algorithm?: RateLimitAlgorithm;
+  /** Requests allowed per window. For the token bucket, tokens refilled per window */
+  limit: number;
+  windowMs: number;
+  /** Token bucket capacity, i.e. the max burst of requests
+   * @default limit
+   */
+  burst?: number;
+  /** @default "ip" */
+  keyBy?: RateLimitKeyBy;
+  /** @default an in-memory store */
+  store?: RateLimitStore;
+  /** Prefix of the store keys, to use different limits on the same store
+   * @default "rate-limit"
+   */
+  prefix?: string;
+  /** Requests for which the rate limit is not applied */
+  skip?: (req: BunApiServerRequest) => boolean;
+  /** If false, `RateLimit-*` headers are only sent on rejected requests
+   * @default true
+   */
+  headers?: boolean;
+  /** @default "Too many requests" */
+  message?: string;
+  /** If true, requests are allowed when the store fails, otherwise the error is propagated
+   * @default true
+   */
+  failOpen?: boolean;
+}
@@ -0,0 +1,83 @@
+/**
+ * Rate limit middleware tests
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { BunApiServer } from "../api-server";
+import { LoggerFactory } from "../logger";
+import type { RateLimitStore } from "./models";
+import { rateLimit } from "./rate-limit-middleware";
+
+const BASE_URL = "http://localhost:39421";
+
+const failingStore: RateLimitStore = {
+  update: async () => { throw new Error("store unavailable"); },
+};
+
+describe("rateLimit", () => {
+  const loggerFactory = new LoggerFactory({ applicationName: "test", instanceId: "1", seqServerUrl: "", logLevel: "fatal" });
+  const server = new BunApiServer(loggerFactory, 39421);
+
+  beforeAll(async () => {
+    server.init([], undefined, undefined, undefined, false);
+    const ok = (_req: any, res: any) => { res.status(200).json({ ok: true }); };
+    server.defineGetRoute("/limited", ok, { middlewares: [rateLimit({ limit: 2, windowMs: 60_000 })] });
+    server.defineGetRoute("/by-key", ok, { middlewares: [rateLimit({ limit: 1, windowMs: 60_000, keyBy: req => req.get("x-api-key") })] });
+    server.defineGetRoute("/fail-open", ok, { middlewares: [rateLimit({ limit: 1, windowMs: 60_000, store: failingStore })] });
+    server.defineGetRoute("/fail-closed", ok, {
+      middlewares: [rateLimit({ limit: 1, windowMs: 60_000, store: failingStore, failOpen: false })],
+    });
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop({ timeoutMs: 1000 });
+  });
+
+  it("should send the rate limit headers on allowed requests", async () => {
+    const response = await fetch(`${BASE_URL}/limited`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ratelimit-limit")).toBe("2");
+    expect(response.headers.get("ratelimit-remaining")).toBe("1");
+    expect(response.headers.get("ratelimit-reset")).toBe("60");
+    expect(response.headers.get("ratelimit-policy")).toBe("2;w=60");
+    expect(response.headers.get("retry-after")).toBeNull();
+  });
+
+  it("should reject the requests over the limit with 429 problem details and Retry-After", async () => {
+    await fetch(`${BASE_URL}/limited`);
+    const response = await fetch(`${BASE_URL}/limited`);
+    const body: any = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("content-type")).toBe("application/problem+json");
+    expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0);
+    expect(response.headers.get("ratelimit-remaining")).toBe("0");
+    expect(body).toEqual({
+      type: "about:blank",
+      title: "Too Many Requests",
+      status: 429,
+      detail: "Too many requests",
+      instance: "/limited",
+    });
+  });
+
+  it("should count the requests by the custom key and skip those without a key", async () => {
+    const get = (apiKey?: string) => fetch(`${BASE_URL}/by-key`, { headers: apiKey ? { "x-api-key": apiKey } : {} });
+
+    expect((await get("a")).status).toBe(200);
+    expect((await get("a")).status).toBe(429);
+    expect((await get("b")).status).toBe(200);
+    expect((await get()).status).toBe(200);
+    expect((await get()).status).toBe(200);
+  });
+
+  it("should allow the requests when the store fails, unless failOpen is false", async () => {
+    const open = await fetch(`${BASE_URL}/fail-open`);
+    expect(open.status).toBe(200);
+    expect(open.headers.get("ratelimit-limit")).toBeNull();
+
+    expect((await fetch(`${BASE_URL}/fail-closed`)).status).toBe(500);
+  });
+});
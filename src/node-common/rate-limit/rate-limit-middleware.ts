@@ -0,0 +1,81 @@
+import { createProblemResponse, TooManyRequestsError, type BunApiServerRequest, type BunMiddleware } from "../api-server";
+import { RATE_LIMIT_ALGORITHMS, type RateLimitPolicy } from "./algorithms";
+import { MemoryRateLimitStore } from "./memory-rate-limit-store";
+import type { RateLimitKeyBy, RateLimitOptions, RateLimitResult } from "./models";
+
+/**
+ * Creates a middleware limiting the requests of each client.
+ * Rejected requests get a 429 `application/problem+json` response with a `Retry-After` header.
+ */
+export function rateLimit(options: RateLimitOptions): BunMiddleware {
+  if (options.limit < 1) throw new Error("limit must be greater than 0");
+  if (options.windowMs <= 0) throw new Error("windowMs must be greater than 0");
+
+  const algorithm = RATE_LIMIT_ALGORITHMS[options.algorithm ?? "fixed-window"];
+  const policy: RateLimitPolicy = { limit: options.limit, windowMs: options.windowMs, burst: options.burst ?? options.limit };
+  const ttlMs = algorithm.ttlMs(policy);
+  const store = options.store ?? new MemoryRateLimitStore();
+  const prefix = options.prefix ?? "rate-limit";
+  const sendHeaders = options.headers ?? true;
+  const failOpen = options.failOpen ?? true;
+
+  return async (req, res, next) => {
+    if (options.skip?.(req)) {
+      return next();
+    }
+
+    const clientKey = await resolveKey(options.keyBy ?? "ip", req);
+    if (clientKey === undefined) {
+      return next();
+    }
+
+    let result: RateLimitResult;
+    try {
+      result = await store.update(`${prefix}:${clientKey}`, ttlMs, state => algorithm.consume(state, policy, Date.now()));
+    } catch (error) {
+      if (!failOpen) throw error;
+      req.log?.warn("Rate limit store failed, request allowed", { error: (error as Error).message });
+      return next();
+    }
+
+    const headers = getRateLimitHeaders(result, policy);
+    if (!result.allowed) {
+      const response = createProblemResponse(new TooManyRequestsError(options.message ?? "Too many requests"), req.path);
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+      response.headers.set("retry-after", String(Math.ceil(result.retryAfterMs / 1000)));
+      return response;
+    }
+
+    if (sendHeaders) {
+      for (const [name, value] of Object.entries(headers)) {
+        res.set(name, value);
+      }
+    }
+    await next();
+  };
+}
+
+async function resolveKey(keyBy: RateLimitKeyBy, req: BunApiServerRequest): Promise<string | undefined> {
+  if (typeof keyBy === "function") {
+    return keyBy(req);
+  }
+
+  if (keyBy === "jwt-subject") {
+    // The subject must come from a verified token, so it is read from the user set by the auth middleware
+    const subject = req.user?.sub;
+    return subject ? `sub:${subject}` : `ip:${req.ip}`;
+  }
+
+  return `ip:${req.ip}`;
+}
+
+function getRateLimitHeaders(result: RateLimitResult, policy: RateLimitPolicy): Record<string, string> {
+  return {
+    "ratelimit-limit": String(result.limit),
+    "ratelimit-remaining": String(result.remaining),
+    "ratelimit-reset": String(Math.ceil(result.resetMs / 1000)),
+    "ratelimit-policy": `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Sequelize rate limit store tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { Sequelize } from "sequelize";
+import { SequelizeRateLimitStore } from "./sequelize-rate-limit-store";
+
+/** Fake sequelize answering the SELECT with the given row, and recording the queries and their transaction */
+function fakeSequelize(row?: { state: object | null; expiresAt: Date }) {
+  const queries: { sql: string; replacements: any; transaction: unknown }[] = [];
+  const transaction = {};
+  const sequelize = {
+    query: async (sql: string, options: { replacements?: any; transaction?: unknown } = {}) => {
+      queries.push({ sql, replacements: options.replacements, transaction: options.transaction });
+      return sql.trim().startsWith("SELECT") && row ? [row] : [];
+    },
+    transaction: async (fn: (transaction: unknown) => Promise<unknown>) => fn(transaction),
+  };
+  return { sequelize: sequelize as unknown as Sequelize, queries, transaction };
+}
+
+const increment = (state: { count: number } | undefined) => {
+  const count = (state?.count ?? 0) + 1;
+  return { state: { count }, result: count };
+};
+
+describe("SequelizeRateLimitStore", () => {
+  it("should lock the row of the key and store the new state in one transaction", async () => {
+    const { sequelize, queries, transaction } = fakeSequelize({ state: { count: 2 }, expiresAt: new Date(Date.now() + 60_000) });
+    const store = new SequelizeRateLimitStore(sequelize);
+
+    expect(await store.update("rate-limit:ip:1.2.3.4", 1000, increment)).toBe(3);
+    expect(queries.map(query => query.sql.trim().split(" ")[0])).toEqual(["INSERT", "SELECT", "UPDATE"]);
+    expect(queries[1]!.sql).toContain("FOR UPDATE");
+    expect(queries.every(query => query.transaction === transaction && query.replacements.key === "rate-limit:ip:1.2.3.4")).toBe(true);
+    expect(JSON.parse(queries[2]!.replacements.state)).toEqual({ count: 3 });
+  });
+
+  it("should start over when the row is new or expired", async () => {
+    const created = fakeSequelize({ state: null, expiresAt: new Date() });
+    const expired = fakeSequelize({ state: { count: 2 }, expiresAt: new Date(Date.now() - 1000) });
+
+    expect(await new SequelizeRateLimitStore(created.sequelize).update("key", 1000, increment)).toBe(1);
+    expect(await new SequelizeRateLimitStore(expired.sequelize).update("key", 1000, increment)).toBe(1);
+  });
+
+  it("should reject invalid table names", () => {
+    const { sequelize } = fakeSequelize();
+
+    expect(() => new SequelizeRateLimitStore(sequelize, `RateLimits"; DROP TABLE "Users`)).toThrow("Invalid rate limit table name");
+    expect(new SequelizeRateLimitStore(sequelize, "ApiRateLimits")).toBeInstanceOf(SequelizeRateLimitStore);
+  });
+});
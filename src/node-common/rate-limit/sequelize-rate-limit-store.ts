@@ -0,0 +1,64 @@
+import { QueryTypes, type Sequelize } from "sequelize";
+import type { RateLimitStore } from "./models";
+
+const DEFAULT_TABLE_NAME = "RateLimits";
+
+/**
+ * Keeps the rate limit state in a Postgres table, so the limits are shared by every instance.
+ * Each update locks the row of the key for the duration of a short transaction.
+ */
+export class SequelizeRateLimitStore implements RateLimitStore {
+  private readonly tableName: string;
+
+  constructor(private readonly sequelize: Sequelize, tableName: string = DEFAULT_TABLE_NAME) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid rate limit table name: ${tableName}`);
+    }
+    this.tableName = tableName;
+  }
+
+  /** Creates the table if it doesn't exist */
+  async init(): Promise<void> {
+    await this.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS "${this.tableName}" (
+        "key" TEXT PRIMARY KEY,
+        "state" JSONB,
+        "expiresAt" TIMESTAMPTZ NOT NULL
+      );
+    `);
+  }
+
+  async update<TState extends object, TResult>(
+    key: string,
+    ttlMs: number,
+    fn: (state: TState | undefined) => { state: TState; result: TResult }
+  ): Promise<TResult> {
+    return this.sequelize.transaction(async transaction => {
+      // Makes sure the row exists, so concurrent requests for a new key wait on the same lock
+      await this.sequelize.query(
+        `INSERT INTO "${this.tableName}" ("key", "state", "expiresAt") VALUES (:key, NULL, now()) ON CONFLICT ("key") DO NOTHING`,
+        { replacements: { key }, transaction }
+      );
+
+      const rows = await this.sequelize.query<{ state: TState | null; expiresAt: Date }>(
+        `SELECT "state", "expiresAt" FROM "${this.tableName}" WHERE "key" = :key FOR UPDATE`,
+        { replacements: { key }, type: QueryTypes.SELECT, transaction }
+      );
+      const row = rows[0];
+      const current = row?.state && new Date(row.expiresAt).getTime() > Date.now() ? row.state : undefined;
+
+      const { state, result } = fn(current);
+      await this.sequelize.query(
+        `UPDATE "${this.tableName}" SET "state" = CAST(:state AS JSONB), "expiresAt" = :expiresAt WHERE "key" = :key`,
+        { replacements: { key, state: JSON.stringify(state), expiresAt: new Date(Date.now() + ttlMs) }, transaction }
+      );
+
+      return result;
+    });
+  }
+
+  /** Deletes the expired keys. Run it periodically, e.g. from a Job */
+  async deleteExpired(): Promise<void> {
+    await this.sequelize.query(`DELETE FROM "${this.tableName}" WHERE "expiresAt" < now()`);
+  }
+}
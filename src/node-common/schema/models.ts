@@ -0,0 +1,24 @@
+/** A single validation failure */
+export interface SchemaIssue {
+  /** Path of the invalid value, e.g. `items[0].name`. Empty for the root value */
+  path: string;
+  /** Machine readable error code, e.g. `INVALID_TYPE` */
+  code: string;
+  /** Human readable error message */
+  message: string;
+}
+
+/** Result of a schema parse */
+export type SchemaResult<T> =
+  | { success: true; value: T }
+  | { success: false; issues: SchemaIssue[] };
+
+export interface SchemaParseOptions {
+  /** If true, string inputs are converted to the expected type (e.g. "42" to 42, "true" to true)
+   * @default false
+   */
+  coerce?: boolean;
+}
+
+/** JSON schema (draft 2020-12) object */
+export type JsonSchema = { [key: string]: any };
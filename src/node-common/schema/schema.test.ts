@@ -0,0 +1,75 @@
+/**
+ * Schema DSL tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { schema } from "./index";
+
+describe("schema", () => {
+  const user = schema.object({
+    email: schema.string({ format: "email" }),
+    age: schema.int({ min: 18 }).optional(),
+    roles: schema.array(schema.enum(["admin", "user"] as const)).default([]),
+  });
+
+  it("should parse valid values and apply defaults", () => {
+    const result = user.parse({ email: "john@example.com", unknown: true });
+
+    expect(result).toEqual({ success: true, value: { email: "john@example.com", roles: [] } });
+  });
+
+  it("should report every invalid field with its path", () => {
+    const result = user.parse({ email: "not-an-email", age: 12.5, roles: ["admin", "root"] });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues).toEqual([
+      { path: "email", code: "INVALID_FORMAT", message: "Expected a valid email" },
+      { path: "age", code: "NOT_INTEGER", message: "Expected integer" },
+      { path: "roles[1]", code: "INVALID_ENUM_VALUE", message: "Expected one of [admin, user]" },
+    ]);
+  });
+
+  it("should report missing required values", () => {
+    const result = user.parse({});
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues).toEqual([{ path: "email", code: "REQUIRED", message: "Value is required" }]);
+  });
+
+  it("should coerce strings only when requested", () => {
+    const query = schema.object({
+      page: schema.int(),
+      active: schema.boolean(),
+      ids: schema.array(schema.number()),
+    });
+
+    expect(query.parse({ page: "2", active: "true", ids: "7" }, { coerce: true })).toEqual({
+      success: true,
+      value: { page: 2, active: true, ids: [7] },
+    });
+    expect(query.parse({ page: "2", active: "true", ids: ["7"] }).success).toBe(false);
+  });
+
+  it("should reject unknown keys in strict mode", () => {
+    const strict = schema.object({ name: schema.string() }, { unknownKeys: "strict" });
+    const result = strict.parse({ name: "a", other: 1 });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.issues[0]?.code).toBe("UNRECOGNIZED_KEY");
+  });
+
+  it("should generate JSON schemas", () => {
+    expect(user.toJsonSchema()).toEqual({
+      type: "object",
+      properties: {
+        email: { type: "string", format: "email" },
+        age: { type: "integer", minimum: 18 },
+        roles: { type: "array", items: { enum: ["admin", "user"] }, default: [] },
+      },
+      required: ["email"],
+    });
+  });
+});
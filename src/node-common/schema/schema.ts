@@ -0,0 +1,447 @@
+import type { JsonSchema, SchemaIssue, SchemaParseOptions, SchemaResult } from "./models";
+
+const INVALID = Symbol("invalid");
+type Parsed<T> = T | typeof INVALID;
+
+interface ParseContext {
+  /** If true, strings are converted to the expected primitive type (query, params, headers) */
+  coerce: boolean;
+  issues: SchemaIssue[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/** Base class of every schema. `T` is the type of the value produced by a successful parse */
+export abstract class SchemaBase<T> {
+  /** Phantom property carrying the output type, used by `InferSchema` */
+  declare readonly _output: T;
+  protected description?: string;
+
+  /** Validates (and, if enabled, coerces) the given value */
+  parse(value: unknown, options: SchemaParseOptions = {}): SchemaResult<T> {
+    const ctx: ParseContext = { coerce: options.coerce ?? false, issues: [] };
+    const result = this._parse(value, "", ctx);
+    if (result === INVALID || ctx.issues.length > 0) {
+      return { success: false, issues: ctx.issues };
+    }
+    return { success: true, value: result };
+  }
+
+  /** Marks the value as optional (undefined allowed) */
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  /** Allows null values */
+  nullable(): NullableSchema<T> {
+    return new NullableSchema(this);
+  }
+
+  /** Uses the given value when the input is undefined */
+  default(value: Exclude<T, undefined>): DefaultSchema<Exclude<T, undefined>> {
+    return new DefaultSchema(this as SchemaBase<any>, value);
+  }
+
+  /** Sets a human readable description, used when generating JSON schemas */
+  describe(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  /** Returns the JSON schema (draft 2020-12) representation of this schema */
+  toJsonSchema(): JsonSchema {
+    const jsonSchema = this._toJsonSchema();
+    return this.description ? { ...jsonSchema, description: this.description } : jsonSchema;
+  }
+
+  /** Returns true if the schema accepts undefined values */
+  isOptional(): boolean {
+    return false;
+  }
+
+  /** @internal */
+  abstract _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T>;
+
+  protected abstract _toJsonSchema(): JsonSchema;
+
+  protected issue(ctx: ParseContext, path: string, code: string, message: string): typeof INVALID {
+    ctx.issues.push({ path, code, message });
+    return INVALID;
+  }
+
+  protected checkPresent(value: unknown, path: string, ctx: ParseContext): boolean {
+    if (value === undefined || value === null) {
+      this.issue(ctx, path, "REQUIRED", "Value is required");
+      return false;
+    }
+    return true;
+  }
+}
+
+export interface StringSchemaOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  format?: "email" | "uuid" | "date-time" | "uri";
+}
+
+export class StringSchema extends SchemaBase<string> {
+  constructor(private readonly options: StringSchemaOptions = {}) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<string> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    if (ctx.coerce && Array.isArray(value)) value = value[value.length - 1];
+    if (ctx.coerce && (typeof value === "number" || typeof value === "boolean")) value = String(value);
+    if (typeof value !== "string") {
+      return this.issue(ctx, path, "INVALID_TYPE", "Expected string");
+    }
+
+    const { minLength, maxLength, pattern, format } = this.options;
+    if (minLength !== undefined && value.length < minLength) {
+      return this.issue(ctx, path, "TOO_SHORT", `Expected at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      return this.issue(ctx, path, "TOO_LONG", `Expected at most ${maxLength} characters`);
+    }
+    if (pattern && !pattern.test(value)) {
+      return this.issue(ctx, path, "INVALID_FORMAT", `Expected to match ${pattern}`);
+    }
+    if (format && !matchesFormat(value, format)) {
+      return this.issue(ctx, path, "INVALID_FORMAT", `Expected a valid ${format}`);
+    }
+    return value;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    const { minLength, maxLength, pattern, format } = this.options;
+    return {
+      type: "string",
+      ...(minLength !== undefined ? { minLength } : {}),
+      ...(maxLength !== undefined ? { maxLength } : {}),
+      ...(pattern ? { pattern: pattern.source } : {}),
+      ...(format ? { format } : {}),
+    };
+  }
+}
+
+export interface NumberSchemaOptions {
+  min?: number;
+  max?: number;
+  /** If true, only integers are accepted */
+  int?: boolean;
+}
+
+export class NumberSchema extends SchemaBase<number> {
+  constructor(private readonly options: NumberSchemaOptions = {}) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<number> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    if (ctx.coerce && Array.isArray(value)) value = value[value.length - 1];
+    if (ctx.coerce && typeof value === "string" && value.trim() !== "") value = Number(value);
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return this.issue(ctx, path, "INVALID_TYPE", "Expected number");
+    }
+
+    const { min, max, int } = this.options;
+    if (int && !Number.isInteger(value)) {
+      return this.issue(ctx, path, "NOT_INTEGER", "Expected integer");
+    }
+    if (min !== undefined && value < min) {
+      return this.issue(ctx, path, "TOO_SMALL", `Expected a value greater than or equal to ${min}`);
+    }
+    if (max !== undefined && value > max) {
+      return this.issue(ctx, path, "TOO_BIG", `Expected a value less than or equal to ${max}`);
+    }
+    return value;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    const { min, max, int } = this.options;
+    return {
+      type: int ? "integer" : "number",
+      ...(min !== undefined ? { minimum: min } : {}),
+      ...(max !== undefined ? { maximum: max } : {}),
+    };
+  }
+}
+
+export class BooleanSchema extends SchemaBase<boolean> {
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<boolean> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    if (ctx.coerce && Array.isArray(value)) value = value[value.length - 1];
+    if (ctx.coerce && typeof value === "string") {
+      if (value === "true" || value === "1") value = true;
+      else if (value === "false" || value === "0") value = false;
+    }
+    if (typeof value !== "boolean") {
+      return this.issue(ctx, path, "INVALID_TYPE", "Expected boolean");
+    }
+    return value;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return { type: "boolean" };
+  }
+}
+
+export class EnumSchema<T extends string | number> extends SchemaBase<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    if (ctx.coerce && Array.isArray(value)) value = value[value.length - 1];
+
+    const match = this.values.find(v => v === value || (ctx.coerce && String(v) === value));
+    if (match === undefined) {
+      return this.issue(ctx, path, "INVALID_ENUM_VALUE", `Expected one of [${this.values.join(", ")}]`);
+    }
+    return match;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return { enum: [...this.values] };
+  }
+}
+
+export interface ArraySchemaOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+export class ArraySchema<T> extends SchemaBase<T[]> {
+  constructor(private readonly item: SchemaBase<T>, private readonly options: ArraySchemaOptions = {}) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T[]> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    // A single query string value is a one item list
+    if (ctx.coerce && !Array.isArray(value)) value = [value];
+    if (!Array.isArray(value)) {
+      return this.issue(ctx, path, "INVALID_TYPE", "Expected array");
+    }
+
+    const { minItems, maxItems } = this.options;
+    if (minItems !== undefined && value.length < minItems) {
+      return this.issue(ctx, path, "TOO_SMALL", `Expected at least ${minItems} items`);
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      return this.issue(ctx, path, "TOO_BIG", `Expected at most ${maxItems} items`);
+    }
+
+    const result: T[] = [];
+    let valid = true;
+    value.forEach((item, index) => {
+      const parsed = this.item._parse(item, `${path}[${index}]`, ctx);
+      if (parsed === INVALID) valid = false;
+      else result.push(parsed);
+    });
+    return valid ? result : INVALID;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    const { minItems, maxItems } = this.options;
+    return {
+      type: "array",
+      items: this.item.toJsonSchema(),
+      ...(minItems !== undefined ? { minItems } : {}),
+      ...(maxItems !== undefined ? { maxItems } : {}),
+    };
+  }
+}
+
+export type ObjectShape = { [key: string]: SchemaBase<any> };
+
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: undefined extends InferSchema<S[K]> ? K : never;
+}[keyof S];
+type RequiredKeys<S extends ObjectShape> = Exclude<keyof S, OptionalKeys<S>>;
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOutput<S extends ObjectShape> = Flatten<
+  { [K in RequiredKeys<S>]: InferSchema<S[K]> } & { [K in OptionalKeys<S>]?: InferSchema<S[K]> }
+>;
+
+export interface ObjectSchemaOptions {
+  /** What to do with keys not declared in the shape.
+   * - `strip` (default): unknown keys are removed from the output
+   * - `passthrough`: unknown keys are kept as is
+   * - `strict`: unknown keys are reported as issues
+   */
+  unknownKeys?: "strip" | "passthrough" | "strict";
+}
+
+export class ObjectSchema<S extends ObjectShape> extends SchemaBase<ObjectOutput<S>> {
+  constructor(readonly shape: S, private readonly options: ObjectSchemaOptions = {}) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<ObjectOutput<S>> {
+    if (!this.checkPresent(value, path, ctx)) return INVALID;
+    if (typeof value !== "object" || Array.isArray(value)) {
+      return this.issue(ctx, path, "INVALID_TYPE", "Expected object");
+    }
+
+    const input = value as { [key: string]: unknown };
+    const unknownKeys = this.options.unknownKeys ?? "strip";
+    const result: { [key: string]: unknown } = unknownKeys === "passthrough" ? { ...input } : {};
+    let valid = true;
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const parsed = schema._parse(input[key], joinPath(path, key), ctx);
+      if (parsed === INVALID) valid = false;
+      else if (parsed !== undefined) result[key] = parsed;
+    }
+
+    if (unknownKeys === "strict") {
+      for (const key of Object.keys(input)) {
+        if (!(key in this.shape)) {
+          valid = false;
+          this.issue(ctx, joinPath(path, key), "UNRECOGNIZED_KEY", `Unrecognized key "${key}"`);
+        }
+      }
+    }
+
+    return valid ? result as ObjectOutput<S> : INVALID;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    const properties: { [key: string]: JsonSchema } = {};
+    const required: string[] = [];
+    for (const [key, schema] of Object.entries(this.shape)) {
+      properties[key] = schema.toJsonSchema();
+      if (!schema.isOptional()) required.push(key);
+    }
+
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...(this.options.unknownKeys === "strict" ? { additionalProperties: false } : {}),
+    };
+  }
+}
+
+/** Accepts any value without validation */
+export class AnySchema<T = any> extends SchemaBase<T> {
+  _parse(value: unknown): Parsed<T> {
+    return value as T;
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return {};
+  }
+}
+
+export class OptionalSchema<T> extends SchemaBase<T | undefined> {
+  constructor(private readonly inner: SchemaBase<T>) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T | undefined> {
+    if (value === undefined) return undefined;
+    return this.inner._parse(value, path, ctx);
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return this.inner.toJsonSchema();
+  }
+}
+
+export class NullableSchema<T> extends SchemaBase<T | null> {
+  constructor(private readonly inner: SchemaBase<T>) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T | null> {
+    if (value === null) return null;
+    return this.inner._parse(value, path, ctx);
+  }
+
+  isOptional(): boolean {
+    return this.inner.isOptional();
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return { anyOf: [this.inner.toJsonSchema(), { type: "null" }] };
+  }
+}
+
+export class DefaultSchema<T> extends SchemaBase<T> {
+  constructor(private readonly inner: SchemaBase<T>, private readonly defaultValue: T) {
+    super();
+  }
+
+  _parse(value: unknown, path: string, ctx: ParseContext): Parsed<T> {
+    if (value === undefined) return structuredClone(this.defaultValue);
+    return this.inner._parse(value, path, ctx);
+  }
+
+  isOptional(): boolean {
+    return true;
+  }
+
+  protected _toJsonSchema(): JsonSchema {
+    return { ...this.inner.toJsonSchema(), default: this.defaultValue };
+  }
+}
+
+/** The type produced by a successful parse of the given schema */
+export type InferSchema<S> = S extends SchemaBase<infer T> ? T : never;
+
+/**
+ * Lightweight schema DSL used to validate and type request data.
+ *
+ * @example
+ * const createUser = schema.object({
+ *   email: schema.string({ format: "email" }),
+ *   age: schema.number({ int: true, min: 18 }).optional(),
+ *   roles: schema.array(schema.enum(["admin", "user"] as const)).default([]),
+ * });
+ *
+ * type CreateUser = InferSchema<typeof createUser>;
+ */
+export const schema = {
+  string: (options?: StringSchemaOptions) => new StringSchema(options),
+  number: (options?: NumberSchemaOptions) => new NumberSchema(options),
+  /** Shorthand for `schema.number({ ...options, int: true })` */
+  int: (options?: Omit<NumberSchemaOptions, "int">) => new NumberSchema({ ...options, int: true }),
+  boolean: () => new BooleanSchema(),
+  enum: <T extends string | number>(values: readonly T[]) => new EnumSchema<T>(values),
+  array: <T>(item: SchemaBase<T>, options?: ArraySchemaOptions) => new ArraySchema<T>(item, options),
+  object: <S extends ObjectShape>(shape: S, options?: ObjectSchemaOptions) => new ObjectSchema<S>(shape, options),
+  any: <T = any>() => new AnySchema<T>(),
+};
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function matchesFormat(value: string, format: NonNullable<StringSchemaOptions["format"]>): boolean {
+  switch (format) {
+    case "email":
+      return EMAIL_PATTERN.test(value);
+    case "uuid":
+      return UUID_PATTERN.test(value);
+    case "date-time":
+      return DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case "uri":
+      return URL.canParse(value);
+  }
+}
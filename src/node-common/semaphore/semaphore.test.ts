@@ -0,0 +1,29 @@
+/**
+ * Semaphore tests
+ */
+
+import { describe, expect, it } from "bun:test";
+import { Semaphore } from "./semaphore";
+
+describe("Semaphore", () => {
+  it("keeps the concurrency limit when slots are handed over to waiting tasks", async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      await semaphore.acquire();
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await Bun.sleep(1);
+      running--;
+      semaphore.release();
+    };
+
+    // Two rounds: the second one must not deadlock after the hand-overs of the first one
+    await Promise.all(Array.from({ length: 6 }, task));
+    await Promise.all(Array.from({ length: 6 }, task));
+
+    expect(maxRunning).toBe(2);
+  });
+});
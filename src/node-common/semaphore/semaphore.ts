@@ -25,12 +25,10 @@ export class Semaphore {
   }
 
   release(): void {
-    if (this.tasks.length > 0) {
-      const next = this.tasks.shift();
-      if (next) next();
-    } else {
-      this.count++;
-    }
+    // The next task takes the released slot back
+    this.count++;
+    const next = this.tasks.shift();
+    if (next) next();
   }
 
   isBusy = () => this.count > 0
@@ -1,6 +1,10 @@
+import type { TrustProxySetting } from "../api-server"
+
 export interface ApiServerSettings {
   /** Api server port */
   port: number
   /** Api server version */
   version: string
-}
\ No newline at end of file
+  /** Proxies trusted to report the client address: false, true, a hop count or a list of IPs and CIDR ranges */
+  trustProxy?: TrustProxySetting
+}